@@ -18,12 +18,15 @@ const nextBtn = document.getElementById("nextBtn");
 const seekEndBtn = document.getElementById("seekEndBtn");
 const blackoutBtn = document.getElementById("blackoutBtn");
 const loopInput = document.getElementById("loopInput");
+const trackingBtn = document.getElementById("trackingBtn");
+const directionSelect = document.getElementById("directionSelect");
 const spmDownBtn = document.getElementById("spmDownBtn");
 const tapSyncBtn = document.getElementById("tapSyncBtn");
 const spmUpBtn = document.getElementById("spmUpBtn");
 const spmInput = document.getElementById("spmInput");
 const spmMultiplierSelect = document.getElementById("spmMultiplierSelect");
 const fadeMsInput = document.getElementById("fadeMsInput");
+const easingSelect = document.getElementById("easingSelect");
 const mobileTabPlaybackBtn = document.getElementById("mobileTabPlaybackBtn");
 const mobileTabSequencerBtn = document.getElementById("mobileTabSequencerBtn");
 const mobileProgramGrid = document.getElementById("mobileProgramGrid");
@@ -32,6 +35,7 @@ const layerModeSwitch = document.getElementById("layerModeSwitch");
 const stepGrid = document.getElementById("stepGrid");
 const palette = document.getElementById("palette");
 const simulator = document.getElementById("simulator");
+const calibratedPreviewBtn = document.getElementById("calibratedPreviewBtn");
 const roomCanvas = document.getElementById("roomCanvas");
 
 const canvas = /** @type {HTMLCanvasElement} */ (roomCanvas);
@@ -47,6 +51,7 @@ const state = {
   timelineSteps: 100,
   currentPlayheadStep: 0,
   isPlaying: false,
+  waitingForGo: false,
   isBlackout: false,
   canvasWidthCss: 1,
   canvasHeightCss: 1,
@@ -69,6 +74,7 @@ const state = {
   tapSyncSpm: null,
   tapTimesMs: [],
   mobileTab: localStorage.getItem("mobileTab") === "sequencer" ? "sequencer" : "playback",
+  calibratedPreview: localStorage.getItem("calibratedPreview") !== "0",
 };
 
 const defaultColorPresets = [
@@ -166,6 +172,7 @@ function ensureStepExists(stepIndex) {
       id: `step-${index + 1}`,
       durationMs: prev?.durationMs ?? 500,
       fadeMs: prev?.fadeMs ?? 300,
+      easing: prev?.easing ?? "linear",
       frames: [],
     });
   }
@@ -177,10 +184,37 @@ function getFixtureFramesForStep(step, fixtureId) {
   return step.frames.filter((frame) => frame.fixtureId === fixtureId);
 }
 
-function frameValueToArray(value) {
+// Kelvin frames ({ kelvin, intensity }) on CCT features are resolved with
+// the fixture's cct calibration, as the server does (core/cct.ts).
+function frameValueToArray(value, fixtureDef) {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const cct = fixtureDef?.calibration?.cct;
+    const warmKelvin = cct?.warmKelvin ?? 2700;
+    const coolKelvin = cct?.coolKelvin ?? 6500;
+    const kelvin = Math.max(warmKelvin, Math.min(coolKelvin, Number(value.kelvin) || warmKelvin));
+    const coolRatio = (kelvin - warmKelvin) / (coolKelvin - warmKelvin);
+    const warmRatio = 1 - coolRatio;
+    const scale = cct?.mix === "max-brightness" ? 1 / Math.max(warmRatio, coolRatio) : 1;
+    const intensity = Number(value.intensity) || 0;
+    return [Math.round(intensity * warmRatio * scale), Math.round(intensity * coolRatio * scale)];
+  }
   return Array.isArray(value) ? value : [value];
 }
 
+// Kinds the editor drives with RGB; the server derives white, amber or HSI.
+function isColorKind(kind) {
+  return kind === "rgb" || kind === "rgbw" || kind === "rgba" || kind === "hsi";
+}
+
+// Kinds whose values are levels, so calibration applies.
+function isLevelKind(kind) {
+  return kind !== "hsi" && kind !== "strobe" && kind !== "pan-tilt" && kind !== "color-wheel";
+}
+
+function featureValueLength(feature) {
+  return isColorKind(feature.kind) ? 3 : feature.channels.length;
+}
+
 function normalizeByFeature(feature, values) {
   return feature.channels.length === 1 ? values[0] : values;
 }
@@ -191,6 +225,22 @@ function clamp255(value) {
   return Math.max(0, Math.min(255, Math.round(parsed)));
 }
 
+// The editor works in 0..255. 16-bit features (with fineChannels) carry
+// 0..65535, so their values are scaled by 257 on the way in and out.
+function featureValueScale(feature) {
+  return Array.isArray(feature.fineChannels) && feature.fineChannels.length > 0 ? 257 : 1;
+}
+
+function toFeatureValues(feature, values) {
+  const scale = featureValueScale(feature);
+  return values.map((value) => Math.round(value * scale));
+}
+
+function fromFeatureValues(feature, values) {
+  const scale = featureValueScale(feature);
+  return values.map((value) => clamp255((Number(value) || 0) / scale));
+}
+
 function normalizeName(name) {
   return name.trim().replace(/\s+/g, " ");
 }
@@ -201,6 +251,11 @@ function clampFadeMs(value) {
   return Math.max(0, Math.min(10000, Math.round(parsed)));
 }
 
+function easingSelectValue(easing) {
+  if (easing && typeof easing === "object") return "cubic-bezier";
+  return typeof easing === "string" ? easing : "linear";
+}
+
 function clampSpm(value) {
   const parsed = Number(value);
   if (!Number.isFinite(parsed)) return 120;
@@ -234,11 +289,21 @@ function isLoopEnabled() {
   return loopInput.classList.contains("active-tool");
 }
 
+function updateCalibratedPreviewUi() {
+  calibratedPreviewBtn.classList.toggle("active-tool", state.calibratedPreview);
+  calibratedPreviewBtn.setAttribute("aria-pressed", String(state.calibratedPreview));
+}
+
 function setLoopEnabled(enabled) {
   loopInput.classList.toggle("active-tool", Boolean(enabled));
   loopInput.setAttribute("aria-pressed", String(Boolean(enabled)));
 }
 
+function setTrackingEnabled(enabled) {
+  trackingBtn.classList.toggle("active-tool", Boolean(enabled));
+  trackingBtn.setAttribute("aria-pressed", String(Boolean(enabled)));
+}
+
 function effectiveSpmForControls(program) {
   if (state.tapSyncActive && state.tapSyncSpm !== null) {
     return state.tapSyncSpm;
@@ -318,6 +383,7 @@ function addStepToProgram() {
     id: `step-${index + 1}`,
     durationMs: prev?.durationMs ?? 500,
     fadeMs: prev?.fadeMs ?? 300,
+    easing: prev?.easing ?? "linear",
     frames: [],
   });
   state.timelineSteps = Math.max(1, program.steps.length);
@@ -347,6 +413,12 @@ function updatePlayPauseLabel() {
   playPauseBtn.textContent = state.isPlaying ? "Pause" : "Play";
 }
 
+// A cue step holding for GO turns the next button into the GO button.
+function updateNextLabel() {
+  nextBtn.textContent = state.waitingForGo ? "GO" : ">>";
+  nextBtn.classList.toggle("active-tool", state.waitingForGo);
+}
+
 function updateBlackoutUi() {
   blackoutBtn.classList.toggle("active-tool", state.isBlackout);
 }
@@ -375,10 +447,13 @@ function fillProgramSelect() {
   const program = selectedProgram();
   if (program) state.timelineSteps = Math.max(1, program.steps.length || 1);
   setLoopEnabled(Boolean(program?.loop ?? true));
+  setTrackingEnabled(Boolean(program?.tracking));
+  directionSelect.value = program?.direction ?? "forward";
   const effectiveSpm = effectiveSpmForControls(program);
   spmInput.value = String(effectiveSpm);
   const fadeMs = clampFadeMs(program?.steps?.[0]?.fadeMs ?? 300);
   fadeMsInput.value = String(fadeMs);
+  easingSelect.value = easingSelectValue(program?.steps?.[0]?.easing);
   updateTapSyncUi();
   renderLayerModeSwitch();
   renderMobileProgramGrid();
@@ -412,8 +487,11 @@ function selectProgram(programId) {
 
   state.timelineSteps = Math.max(1, program.steps.length || 1);
   setLoopEnabled(Boolean(program.loop ?? true));
+  setTrackingEnabled(Boolean(program.tracking));
+  directionSelect.value = program.direction ?? "forward";
   spmInput.value = String(effectiveSpmForControls(program));
   fadeMsInput.value = String(clampFadeMs(program.steps?.[0]?.fadeMs ?? 300));
+  easingSelect.value = easingSelectValue(program.steps?.[0]?.easing);
   if (!state.isPlaying || state.currentPlayheadStep >= program.steps.length) {
     state.currentPlayheadStep = 0;
   }
@@ -448,7 +526,37 @@ function layoutRoomCanvas(environment) {
   ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
 }
 
-function fixtureColor(values, fixtureId, fixtureDef) {
+// Mirrors src/core/calibration.ts: white balance, per-channel gamma, then the
+// dimmer curve, on levels normalized to 0..1.
+function applyDimmerCurve(t, curve) {
+  if (!curve || curve === "linear") return t;
+  if (curve === "square") return t * t;
+  if (curve === "s-curve") return t * t * (3 - 2 * t);
+  const table = curve.table ?? [0, 1];
+  const position = t * (table.length - 1);
+  const index = Math.min(table.length - 2, Math.floor(position));
+  return table[index] + (table[index + 1] - table[index]) * (position - index);
+}
+
+function calibrateFeatureLevels(calibration, feature, values) {
+  const clamp01 = (value) => Math.max(0, Math.min(1, Number(value) || 0));
+  let levels = values.map((value) => clamp01(value / 255));
+  if (calibration.whiteBalance && isColorKind(feature.kind) && levels.length >= 3) {
+    const [r, g, b] = levels;
+    levels = [
+      ...calibration.whiteBalance.map((row) => clamp01(row[0] * r + row[1] * g + row[2] * b)),
+      ...levels.slice(3),
+    ];
+  }
+  return levels.map((level, i) => {
+    const gamma = typeof calibration.gamma === "number"
+      ? calibration.gamma
+      : calibration.gamma?.[String(feature.channels[i])] ?? 1;
+    return Math.round(clamp01(applyDimmerCurve(level ** gamma, calibration.dimmerCurve)) * 255);
+  });
+}
+
+function fixtureColor(values, fixtureId, fixtureDef, calibrated = false) {
   let rgb = [0, 0, 0];
   let cct = [0, 0];
   let dimmerLevel = 0;
@@ -460,8 +568,20 @@ function fixtureColor(values, fixtureId, fixtureDef) {
     const feature = fixtureDef.features.find((item) => item.id === featureId);
     if (!feature) continue;
 
-    const array = Array.isArray(value) ? value : [value];
-    if (feature.kind === "rgb") rgb = [array[0] || 0, array[1] || 0, array[2] || 0];
+    const raw = fromFeatureValues(feature, Array.isArray(value) ? value : [value]);
+    const array = calibrated && fixtureDef.calibration && isLevelKind(feature.kind)
+      ? calibrateFeatureLevels(fixtureDef.calibration, feature, raw)
+      : raw;
+    if (isColorKind(feature.kind)) {
+      // A fourth value is an explicit white or amber channel.
+      const extra = array[3] || 0;
+      const extraColor = feature.kind === "rgba" ? [255, 191, 0] : [255, 255, 255];
+      rgb = [0, 1, 2].map((i) => clamp255((array[i] || 0) + (extraColor[i] * extra) / 255));
+    }
+    if (feature.kind === "color-wheel") {
+      const slot = feature.slots?.[array[0] || 0];
+      if (slot?.color) rgb = [...slot.color];
+    }
     if (feature.kind === "cct") cct = [array[0] || 0, array[1] || 0];
     if (feature.kind === "scalar") dimmerLevel = Math.max(dimmerLevel, clamp255(array[0] || 0));
   }
@@ -508,7 +628,7 @@ function drawSimulator(frame) {
     const baseH = fallbackH;
 
     const angle = ((Number(fixture.orientationDeg ?? 0) - 90) * Math.PI) / 180;
-    const fill = fixtureColor(frame.values, fixture.id, def);
+    const fill = fixtureColor(frame.values, fixture.id, def, state.calibratedPreview);
 
     ctx.save();
     ctx.translate(cx, cy);
@@ -522,18 +642,40 @@ function drawSimulator(frame) {
   }
 }
 
-function keyframeValues(step, fixtureId) {
+function keyframeValues(step, fixtureId, fixtureDef) {
   const values = {};
   if (!step) return values;
   const frames = getFixtureFramesForStep(step, fixtureId);
   for (const frame of frames) {
-    values[`${fixtureId}:${frame.featureId}`] = frameValueToArray(frame.value);
+    if (frame.release) continue;
+    values[`${fixtureId}:${frame.featureId}`] = frameValueToArray(frame.value, fixtureDef);
+  }
+  return values;
+}
+
+// Values a tracking program carries into the step for features the step does
+// not set, looking back like the server does (wrapping when looping).
+function trackedValues(program, stepIndex, fixtureId, fixtureDef) {
+  const values = {};
+  const steps = program?.steps ?? [];
+  if (!program?.tracking || stepIndex >= steps.length) return values;
+  const decided = new Set(getFixtureFramesForStep(steps[stepIndex], fixtureId).map((frame) => frame.featureId));
+  const lookback = program.loop ? steps.length : stepIndex + 1;
+  for (let offset = 1; offset < lookback; offset += 1) {
+    const step = steps[(stepIndex - offset + steps.length) % steps.length];
+    const frames = getFixtureFramesForStep(step, fixtureId);
+    for (let i = frames.length - 1; i >= 0; i -= 1) {
+      const frame = frames[i];
+      if (decided.has(frame.featureId)) continue;
+      decided.add(frame.featureId);
+      if (!frame.release) values[`${fixtureId}:${frame.featureId}`] = frameValueToArray(frame.value, fixtureDef);
+    }
   }
   return values;
 }
 
 function defaultFeatureValues(feature) {
-  if (feature.kind === "rgb") return [0, 0, 0];
+  if (isColorKind(feature.kind)) return [0, 0, 0];
   return Array.from({ length: feature.channels.length }, () => 0);
 }
 
@@ -684,7 +826,7 @@ function renderPalette() {
   name.textContent = active.feature.label;
   card.appendChild(name);
 
-  if (active.feature.kind === "rgb") {
+  if (isColorKind(active.feature.kind)) {
     if (!state.rgbBaseColorByKey[active.key]) {
       const [r = 0, g = 0, b = 0] = values;
       state.rgbBaseColorByKey[active.key] = [clamp255(r), clamp255(g), clamp255(b)];
@@ -791,14 +933,31 @@ function renderPalette() {
     customWrap.appendChild(customLabel);
     customWrap.appendChild(color);
     card.appendChild(customWrap);
+  } else if (active.feature.kind === "color-wheel") {
+    const row = document.createElement("label");
+    row.className = "feature-input-row";
+    const left = document.createElement("span");
+    left.textContent = "Slot";
+    const select = document.createElement("select");
+    (active.feature.slots ?? []).forEach((slot, index) => {
+      const option = document.createElement("option");
+      option.value = String(index);
+      option.textContent = slot.name;
+      select.appendChild(option);
+    });
+    select.value = String(values[0] ?? 0);
+    select.onchange = () => {
+      state.paletteFeatureValues[active.key] = [Number(select.value)];
+    };
+    row.appendChild(left);
+    row.appendChild(select);
+    card.appendChild(row);
   } else {
     for (let i = 0; i < active.feature.channels.length; i += 1) {
       const row = document.createElement("label");
       row.className = "feature-input-row";
       const left = document.createElement("span");
-      left.textContent = active.feature.kind === "cct"
-        ? (i === 0 ? "WW" : "CW")
-        : `CH ${active.feature.channels[i]}`;
+      left.textContent = featureChannelLabel(active.feature, i);
 
       const slider = document.createElement("input");
       slider.type = "range";
@@ -833,6 +992,13 @@ function renderPalette() {
   config.appendChild(card);
 }
 
+function featureChannelLabel(feature, index) {
+  if (feature.kind === "cct") return index === 0 ? "WW" : "CW";
+  if (feature.kind === "pan-tilt") return index === 0 ? "Pan" : "Tilt";
+  if (feature.kind === "strobe") return "Rate";
+  return `CH ${feature.channels[index]}`;
+}
+
 function activePaletteOption() {
   return featureOptions().find((option) => option.key === state.selectedPaletteKey) || null;
 }
@@ -870,10 +1036,10 @@ function samplePaletteFromCell(fixtureId, stepIndex) {
     if (!feature) return false;
     const key = `${envFixture.fixtureTypeId}::${feature.id}`;
     state.selectedPaletteKey = key;
-    const nextValues = values.slice(0, feature.channels.length);
-    while (nextValues.length < feature.channels.length) nextValues.push(0);
-    state.paletteFeatureValues[key] = nextValues.map((value) => clamp255(value));
-    if (feature.kind === "rgb") {
+    const nextValues = values.slice(0, featureValueLength(feature));
+    while (nextValues.length < featureValueLength(feature)) nextValues.push(0);
+    state.paletteFeatureValues[key] = fromFeatureValues(feature, nextValues);
+    if (isColorKind(feature.kind)) {
       state.rgbBaseColorByKey[key] = [...state.paletteFeatureValues[key]];
       state.rgbBrightnessByKey[key] = 255;
     }
@@ -895,12 +1061,12 @@ function samplePaletteFromCell(fixtureId, stepIndex) {
 
   const key = `${envFixture.fixtureTypeId}::${feature.id}`;
   state.selectedPaletteKey = key;
-  const values = frameValueToArray(frame.value).slice(0, feature.channels.length);
+  const values = frameValueToArray(frame.value, fixtureDef).slice(0, featureValueLength(feature));
 
-  while (values.length < feature.channels.length) values.push(0);
-  const nextValues = values.map((value) => clamp255(value));
+  while (values.length < featureValueLength(feature)) values.push(0);
+  const nextValues = fromFeatureValues(feature, values);
   state.paletteFeatureValues[key] = nextValues;
-  if (feature.kind === "rgb") {
+  if (isColorKind(feature.kind)) {
     state.rgbBaseColorByKey[key] = [...nextValues];
     state.rgbBrightnessByKey[key] = 255;
   }
@@ -947,8 +1113,8 @@ function applyPaletteToCell(fixtureId, stepIndex) {
     if (!feature) return { changed: false, picked: false, fixtureDef };
 
     const values = (state.paletteFeatureValues[active.key] ?? defaultFeatureValues(active.feature))
-      .slice(0, feature.channels.length);
-    while (values.length < feature.channels.length) values.push(values[values.length - 1] ?? 0);
+      .slice(0, featureValueLength(feature));
+    while (values.length < featureValueLength(feature)) values.push(values[values.length - 1] ?? 0);
     for (let i = 0; i < values.length; i += 1) values[i] = clamp255(values[i]);
 
     const key = `${fixtureId}:${feature.id}`;
@@ -963,7 +1129,7 @@ function applyPaletteToCell(fixtureId, stepIndex) {
       return { changed: true, picked: false, fixtureDef };
     }
 
-    const next = values.slice(0, feature.channels.length);
+    const next = toFeatureValues(feature, values);
     const changed = JSON.stringify(current ?? []) !== JSON.stringify(next);
     if (!changed) return { changed: false, picked: false, fixtureDef };
     if (state.lastFrame) {
@@ -1000,11 +1166,23 @@ function applyPaletteToCell(fixtureId, stepIndex) {
   );
 
   const values = (state.paletteFeatureValues[active.key] ?? defaultFeatureValues(active.feature))
-    .slice(0, feature.channels.length);
-  while (values.length < feature.channels.length) values.push(values[values.length - 1] ?? 0);
+    .slice(0, featureValueLength(feature));
+  while (values.length < featureValueLength(feature)) values.push(values[values.length - 1] ?? 0);
   for (let i = 0; i < values.length; i += 1) values[i] = clamp255(values[i]);
 
   const allZero = values.every((value) => value === 0);
+  // Black in a tracking program is an explicit release; removing the frame
+  // would let the previous value track through.
+  if (allZero && selectedProgram()?.tracking) {
+    const release = { fixtureId, featureId: feature.id, value: 0, release: true };
+    if (frameIndex >= 0) {
+      const changed = !step.frames[frameIndex].release;
+      step.frames[frameIndex] = release;
+      return { changed, picked: false, fixtureDef };
+    }
+    step.frames.push(release);
+    return { changed: true, picked: false, fixtureDef };
+  }
   if (allZero) {
     if (frameIndex >= 0) {
       step.frames.splice(frameIndex, 1);
@@ -1016,7 +1194,7 @@ function applyPaletteToCell(fixtureId, stepIndex) {
   const frame = {
     fixtureId,
     featureId: feature.id,
-    value: normalizeByFeature(feature, values),
+    value: normalizeByFeature(feature, toFeatureValues(feature, values)),
   };
 
   if (frameIndex >= 0) {
@@ -1051,12 +1229,12 @@ function updateCellPreview(cell, fixtureId, stepIndex, fixtureDef) {
 
   const step = getStep(stepIndex);
   const frames = step ? getFixtureFramesForStep(step, fixtureId) : [];
-  if (frames.length > 0) {
-    const values = keyframeValues(step, fixtureId);
-    cell.style.background = fixtureColor(values, fixtureId, fixtureDef);
-    return;
-  }
-  cell.style.background = "";
+  const tracked = trackedValues(selectedProgram(), stepIndex, fixtureId, fixtureDef);
+  const own = keyframeValues(step, fixtureId, fixtureDef);
+  const values = { ...tracked, ...own };
+  cell.classList.toggle("released", frames.some((frame) => frame.release));
+  cell.classList.toggle("tracked", Object.keys(own).length === 0 && Object.keys(tracked).length > 0);
+  cell.style.background = Object.keys(values).length > 0 ? fixtureColor(values, fixtureId, fixtureDef) : "";
 }
 
 function renderStepGrid() {
@@ -1257,6 +1435,7 @@ function updateSimulator(frame) {
     send({ type: "tempo", payload: { spm: targetSpm } });
   }
   setLoopEnabled(Boolean(frameState.loop));
+  directionSelect.value = frameState.direction ?? "forward";
 
   drawSimulator(frame);
 
@@ -1269,6 +1448,11 @@ function updateSimulator(frame) {
     state.isPlaying = frameState.isPlaying;
     updatePlayPauseLabel();
   }
+
+  if (state.waitingForGo !== Boolean(frameState.waitingForGo)) {
+    state.waitingForGo = Boolean(frameState.waitingForGo);
+    updateNextLabel();
+  }
 }
 
 async function saveProgramNow() {
@@ -1343,10 +1527,13 @@ async function createProgram() {
     environmentId: baseProgram.environmentId,
     spm: baseProgram.spm ?? 120,
     loop: typeof baseProgram.loop === "boolean" ? baseProgram.loop : true,
+    tracking: Boolean(baseProgram.tracking),
+    direction: baseProgram.direction ?? "forward",
     steps: Array.from({ length: Math.max(1, state.timelineSteps) }, (_, index) => ({
       id: `step-${index + 1}`,
       durationMs: 500,
       fadeMs: clampFadeMs(fadeMsInput.value),
+      easing: easingSelect.value === "cubic-bezier" ? "linear" : easingSelect.value,
       frames: [],
     })),
   };
@@ -1476,6 +1663,30 @@ fadeMsInput.onchange = () => {
   }
 };
 
+easingSelect.onchange = () => {
+  const program = selectedProgram();
+  if (!program) return;
+  const easing = easingSelect.value;
+  let changed = false;
+  for (const step of program.steps) {
+    if (step.easing !== easing) {
+      step.easing = easing;
+      changed = true;
+    }
+  }
+  if (changed) {
+    markProgramDirty();
+    scheduleAutoSave();
+  }
+};
+
+calibratedPreviewBtn.onclick = () => {
+  state.calibratedPreview = !state.calibratedPreview;
+  localStorage.setItem("calibratedPreview", state.calibratedPreview ? "1" : "0");
+  updateCalibratedPreviewUi();
+  if (state.lastFrame) drawSimulator(state.lastFrame);
+};
+
 loopInput.onclick = () => {
   const enabled = !isLoopEnabled();
   setLoopEnabled(enabled);
@@ -1488,6 +1699,27 @@ loopInput.onclick = () => {
   send({ type: "loop", payload: { enabled } });
 };
 
+trackingBtn.onclick = () => {
+  const program = selectedProgram();
+  if (!program) return;
+  program.tracking = !program.tracking;
+  setTrackingEnabled(program.tracking);
+  markProgramDirty();
+  scheduleAutoSave();
+  renderStepGrid();
+};
+
+directionSelect.onchange = () => {
+  const direction = directionSelect.value;
+  const program = selectedProgram();
+  if (program) {
+    program.direction = direction;
+    markProgramDirty();
+    scheduleAutoSave();
+  }
+  send({ type: "direction", payload: { direction } });
+};
+
 tapSyncBtn.onclick = () => {
   handleTapSync();
 };
@@ -1529,6 +1761,7 @@ ws.onmessage = (message) => {
 
 updatePlayPauseLabel();
 updateBlackoutUi();
+updateCalibratedPreviewUi();
 setLoopEnabled(true);
 updateTapSyncUi();
 applyMobileTabUi();
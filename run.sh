@@ -4,6 +4,22 @@
 export PORT=3000
 export CHASER_ARTNET_REFRESH_MS=$(bashio::config 'artnet_refresh_ms')
 
+if ! bashio::config.true 'artnet_discovery'; then
+    export CHASER_ARTNET_DISCOVERY=0
+fi
+
+if ! bashio::config.true 'osc_enabled'; then
+    export CHASER_OSC=0
+fi
+
+# Location for sunrise/sunset schedules
+if bashio::config.has_value 'latitude' && bashio::config.has_value 'longitude'; then
+    export CHASER_LATITUDE=$(bashio::config 'latitude')
+    export CHASER_LONGITUDE=$(bashio::config 'longitude')
+else
+    bashio::log.info "No latitude/longitude set; sunrise and sunset schedules are disabled"
+fi
+
 if bashio::config.true 'debug'; then
     export CHASER_DEBUG=1
     bashio::log.info "Debug mode enabled"
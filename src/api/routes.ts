@@ -1,8 +1,45 @@
 import type { FastifyInstance } from "fastify";
+import { validateCalibration } from "../core/calibration.js";
+import { isKelvinValue, resolveProgramValues, validateKelvinValue } from "../core/cct.js";
+import { isValidEasing } from "../core/easing.js";
+import { acceptedValueCounts, FEATURE_KINDS, kindChannelCount } from "../core/feature-kinds.js";
+import { featureMaxValue } from "../core/feature-values.js";
+import { analyzePatch } from "../core/patch-analysis.js";
+import { importOflFixture } from "../config/ofl-import.js";
+import { nextFireTimes, validateScheduleTrigger } from "../core/schedule-times.js";
+import { DEFAULT_PLAYBACK_ID } from "../core/sequencer.js";
+import { PLAYBACK_DIRECTIONS, isPlaybackDirection } from "../core/step-order.js";
+import {
+  buildEffectStartEvent,
+  buildLayerAClearEvent,
+  buildLayerASetEvent,
+  buildTransportEvent,
+  isTransportCommand,
+} from "./transport.js";
+import type { ConfigStore } from "../core/config-store.js";
+import type { PlaylistPlayer } from "../core/playlist-player.js";
+import type { PlaylistStore } from "../core/playlist-store.js";
 import type { ProgramStore } from "../core/program-store.js";
+import type { ScheduleStore } from "../core/schedule-store.js";
+import type { Scheduler } from "../core/scheduler.js";
+import type { GeoLocation } from "../core/sun.js";
 import type { Sequencer } from "../core/sequencer.js";
 import type { WsHub } from "../ws/hub.js";
-import type { ProgramDefinition, RuntimeConfig } from "../config/types.js";
+import type { ClientEvent } from "../ws/protocol.js";
+import type { ArtnetDiscovery } from "../outputs/artnet-discovery.js";
+import type { OflImportOptions, OflImportResult } from "../config/ofl-import.js";
+import type {
+  EnvironmentDefinition,
+  FixtureDefinition,
+  FixtureFeature,
+  PlaylistDefinition,
+  ProgramDefinition,
+  RuntimeConfig,
+  ScheduleDefinition,
+} from "../config/types.js";
+
+const OUTPUT_TYPES = ["simulator", "artnet", "sacn", "mqtt"];
+const STEP_TRIGGERS = ["follow", "go", "wait"];
 
 function asErrorMessage(error: unknown): string {
   if (error instanceof Error) return error.message;
@@ -19,6 +56,15 @@ function validateProgram(program: ProgramDefinition, config: RuntimeConfig): str
   if (typeof program.loop !== "boolean") {
     return "Program loop must be a boolean";
   }
+  if (program.crossfadeMs !== undefined && (!isFiniteNumber(program.crossfadeMs) || program.crossfadeMs < 0)) {
+    return "Program crossfadeMs must be a non-negative number";
+  }
+  if (program.tracking !== undefined && typeof program.tracking !== "boolean") {
+    return "Program tracking must be a boolean";
+  }
+  if (program.direction !== undefined && !isPlaybackDirection(program.direction)) {
+    return `Program direction must be one of: ${PLAYBACK_DIRECTIONS.join(", ")}`;
+  }
 
   const fixtureById = new Map(environment.fixtures.map((item) => [item.id, item]));
   const fixtureDefs = new Map(config.fixtures.map((item) => [item.id, item]));
@@ -26,6 +72,15 @@ function validateProgram(program: ProgramDefinition, config: RuntimeConfig): str
   for (const step of program.steps) {
     if (step.durationMs <= 0) return `Step ${step.id} must have positive duration`;
     if (step.fadeMs < 0) return `Step ${step.id} cannot have negative fade`;
+    if (step.easing !== undefined && !isValidEasing(step.easing)) {
+      return `Step ${step.id} has unsupported easing`;
+    }
+    if (step.trigger !== undefined && !STEP_TRIGGERS.includes(step.trigger)) {
+      return `Step ${step.id} trigger must be follow, go or wait`;
+    }
+    if (step.trigger === "wait" && (!isFiniteNumber(step.waitMs) || step.waitMs <= 0)) {
+      return `Step ${step.id} needs a positive waitMs`;
+    }
 
     for (const frame of step.frames) {
       const environmentFixture = fixtureById.get(frame.fixtureId);
@@ -40,14 +95,277 @@ function validateProgram(program: ProgramDefinition, config: RuntimeConfig): str
       if (!feature) {
         return `Step ${step.id} references missing feature ${frame.featureId} on ${frame.fixtureId}`;
       }
-      const expectedChannels = feature.channels.length;
+      if (frame.release !== undefined && typeof frame.release !== "boolean") {
+        return `Step ${step.id} ${frame.fixtureId}:${frame.featureId} release must be a boolean`;
+      }
+      if (frame.release) continue;
+      if (isKelvinValue(frame.value)) {
+        const kelvinError = validateKelvinValue(feature, frame.value);
+        if (kelvinError) return `Step ${step.id} ${frame.fixtureId}:${frame.featureId} ${kelvinError}`;
+        continue;
+      }
+      const expectedCounts = acceptedValueCounts(feature);
       const values = Array.isArray(frame.value) ? frame.value : [frame.value];
-      if (values.length !== expectedChannels) {
-        return `Step ${step.id} ${frame.fixtureId}:${frame.featureId} expected ${expectedChannels} values`;
+      if (!expectedCounts.includes(values.length)) {
+        return `Step ${step.id} ${frame.fixtureId}:${frame.featureId} expected ${expectedCounts.join(" or ")} values`;
+      }
+      const maxValue = featureMaxValue(feature);
+      if (values.some((value) => !isFiniteNumber(value) || value < 0 || value > maxValue)) {
+        return `Step ${step.id} ${frame.fixtureId}:${frame.featureId} values must be between 0 and ${maxValue}`;
+      }
+      if (feature.kind === "color-wheel" && feature.slots && !Number.isInteger(values[0])) {
+        return `Step ${step.id} ${frame.fixtureId}:${frame.featureId} must select a color wheel slot by index`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// The first program an edit would break: valid under `current` but not under
+// `next`. Programs that are already invalid do not block the edit.
+function programBrokenBy(
+  programs: ProgramDefinition[],
+  current: RuntimeConfig,
+  next: RuntimeConfig,
+): { program: ProgramDefinition; error: string } | null {
+  for (const program of programs) {
+    if (validateProgram(program, current)) continue;
+    const error = validateProgram(program, next);
+    if (error) return { program, error };
+  }
+  return null;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function findDuplicate(ids: string[]): string | null {
+  const seen = new Set<string>();
+  for (const id of ids) {
+    if (seen.has(id)) return id;
+    seen.add(id);
+  }
+  return null;
+}
+
+function validateFeatureKind(feature: FixtureFeature): string | null {
+  const expectedChannels = kindChannelCount(feature.kind);
+  if (expectedChannels !== null && feature.channels.length !== expectedChannels) {
+    return `Feature ${feature.id} of kind ${feature.kind} needs ${expectedChannels} channels`;
+  }
+  if ((feature.kind === "strobe" || feature.kind === "color-wheel") && feature.fineChannels !== undefined) {
+    return `Feature ${feature.id} of kind ${feature.kind} cannot be 16-bit`;
+  }
+  if (feature.kind === "strobe" && feature.strobe) {
+    const { offValue, minHz, maxHz } = feature.strobe;
+    if (offValue !== undefined && (!Number.isInteger(offValue) || offValue < 0 || offValue > 255)) {
+      return `Feature ${feature.id} strobe offValue must be between 0 and 255`;
+    }
+    if ((minHz !== undefined && !isFiniteNumber(minHz)) || (maxHz !== undefined && !isFiniteNumber(maxHz))) {
+      return `Feature ${feature.id} strobe minHz and maxHz must be numbers`;
+    }
+  }
+  if (feature.kind === "color-wheel") {
+    if (!Array.isArray(feature.slots) || feature.slots.length === 0) {
+      return `Feature ${feature.id} needs at least one color wheel slot`;
+    }
+    for (const slot of feature.slots) {
+      if (typeof slot?.name !== "string" || slot.name.length === 0) {
+        return `Feature ${feature.id} color wheel slots need a name`;
+      }
+      if (!Number.isInteger(slot.min) || !Number.isInteger(slot.max) || slot.min < 0 || slot.max > 255 || slot.min > slot.max) {
+        return `Feature ${feature.id} slot ${slot.name} must satisfy 0 <= min <= max <= 255`;
+      }
+      if (slot.color !== undefined && !(Array.isArray(slot.color) && slot.color.length === 3
+        && slot.color.every((value) => Number.isInteger(value) && value >= 0 && value <= 255))) {
+        return `Feature ${feature.id} slot ${slot.name} color must be [r, g, b]`;
+      }
+    }
+  }
+  return null;
+}
+
+function validateFixtureDefinition(fixture: FixtureDefinition, config: RuntimeConfig): string | null {
+  if (typeof fixture?.id !== "string" || fixture.id.length === 0) return "Fixture id is required";
+  if (typeof fixture.name !== "string" || fixture.name.length === 0) return "Fixture name is required";
+  if (typeof fixture.brand !== "string") return "Fixture brand must be a string";
+  const dimensions = fixture.dimensionsMm;
+  if (!dimensions || ![dimensions.width, dimensions.height, dimensions.depth].every(isFiniteNumber)) {
+    return "Fixture dimensionsMm requires width, height and depth";
+  }
+  if (!Number.isInteger(fixture.channels) || fixture.channels < 1 || fixture.channels > 512) {
+    return "Fixture channels must be an integer between 1 and 512";
+  }
+  if (!Array.isArray(fixture.features)) return "Fixture features must be an array";
+
+  const duplicateFeature = findDuplicate(fixture.features.map((feature) => feature.id));
+  if (duplicateFeature) return `Duplicate feature id ${duplicateFeature}`;
+
+  for (const feature of fixture.features) {
+    if (typeof feature.id !== "string" || feature.id.length === 0) return "Feature id is required";
+    if (!FEATURE_KINDS.includes(feature.kind)) {
+      return `Feature ${feature.id} has unsupported kind ${String(feature.kind)}`;
+    }
+    if (!Array.isArray(feature.channels) || feature.channels.length === 0) {
+      return `Feature ${feature.id} requires at least one channel`;
+    }
+    const kindError = validateFeatureKind(feature);
+    if (kindError) return kindError;
+    for (const channel of [...feature.channels, ...(feature.fineChannels ?? [])]) {
+      if (!Number.isInteger(channel) || channel < 1 || channel > fixture.channels) {
+        return `Feature ${feature.id} channel ${channel} is outside 1..${fixture.channels}`;
+      }
+    }
+    if (feature.fineChannels !== undefined) {
+      if (!Array.isArray(feature.fineChannels) || feature.fineChannels.length !== feature.channels.length) {
+        return `Feature ${feature.id} needs one fine channel per channel`;
+      }
+      if (findDuplicate([...feature.channels, ...feature.fineChannels].map(String))) {
+        return `Feature ${feature.id} reuses a channel as coarse and fine`;
+      }
+    }
+    if (feature.range) {
+      const { min, max } = feature.range;
+      if (!isFiniteNumber(min) || !isFiniteNumber(max) || min < 0 || max > 255 || min > max) {
+        return `Feature ${feature.id} range must satisfy 0 <= min <= max <= 255`;
+      }
+    }
+  }
+
+  const calibrationError = validateCalibration(fixture.calibration, fixture.channels);
+  if (calibrationError) return calibrationError;
+
+  // A changed footprint must still fit wherever the type is already patched.
+  for (const environment of config.environments) {
+    for (const patched of environment.fixtures) {
+      if (patched.fixtureTypeId !== fixture.id) continue;
+      if (patched.address + fixture.channels - 1 > 512) {
+        return `${patched.id} in ${environment.id} would overflow universe ${patched.universe}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+function validateEnvironment(environment: EnvironmentDefinition, config: RuntimeConfig): string | null {
+  if (typeof environment?.id !== "string" || environment.id.length === 0) return "Environment id is required";
+  if (typeof environment.name !== "string" || environment.name.length === 0) return "Environment name is required";
+  const dimensions = environment.dimensionsMm;
+  if (!dimensions || !isFiniteNumber(dimensions.width) || !isFiniteNumber(dimensions.height)) {
+    return "Environment dimensionsMm requires width and height";
+  }
+  if (environment.renderFps !== undefined && (!isFiniteNumber(environment.renderFps) || environment.renderFps <= 0)) {
+    return "Environment renderFps must be a positive number";
+  }
+  if (
+    environment.programCrossfadeMs !== undefined
+    && (!isFiniteNumber(environment.programCrossfadeMs) || environment.programCrossfadeMs < 0)
+  ) {
+    return "Environment programCrossfadeMs must be a non-negative number";
+  }
+  if (!Array.isArray(environment.fixtures)) return "Environment fixtures must be an array";
+  if (!Array.isArray(environment.outputs)) return "Environment outputs must be an array";
+
+  const duplicateFixture = findDuplicate(environment.fixtures.map((fixture) => fixture.id));
+  if (duplicateFixture) return `Duplicate fixture id ${duplicateFixture}`;
+
+  const fixtureDefs = new Map(config.fixtures.map((item) => [item.id, item]));
+  for (const fixture of environment.fixtures) {
+    if (typeof fixture.id !== "string" || fixture.id.length === 0) return "Fixture id is required";
+    const fixtureDef = fixtureDefs.get(fixture.fixtureTypeId);
+    if (!fixtureDef) return `Fixture ${fixture.id} references unknown fixture type ${fixture.fixtureTypeId}`;
+    if (!Number.isInteger(fixture.universe) || fixture.universe < 0) {
+      return `Fixture ${fixture.id} universe must be a non-negative integer`;
+    }
+    if (!Number.isInteger(fixture.address) || fixture.address < 1 || fixture.address > 512) {
+      return `Fixture ${fixture.id} address must be between 1 and 512`;
+    }
+    const lastAddress = fixture.address + fixtureDef.channels - 1;
+    if (lastAddress > 512) {
+      return `Fixture ${fixture.id} overflows universe ${fixture.universe} (channels ${fixture.address}-${lastAddress})`;
+    }
+    if (!fixture.position2d || !isFiniteNumber(fixture.position2d.x) || !isFiniteNumber(fixture.position2d.y)) {
+      return `Fixture ${fixture.id} position2d requires x and y`;
+    }
+  }
+
+  const duplicateOutput = findDuplicate(environment.outputs.map((output) => output.id));
+  if (duplicateOutput) return `Duplicate output id ${duplicateOutput}`;
+  for (const output of environment.outputs) {
+    if (!OUTPUT_TYPES.includes(output.type)) return `Output ${output.id} has unsupported type ${String(output.type)}`;
+  }
+
+  const duplicatePlayback = findDuplicate((environment.playbacks ?? []).map((playback) => playback.id));
+  if (duplicatePlayback) return `Duplicate playback id ${duplicatePlayback}`;
+  const duplicateInput = findDuplicate((environment.inputs ?? []).map((input) => input.id));
+  if (duplicateInput) return `Duplicate input id ${duplicateInput}`;
+
+  return null;
+}
+
+function validateSchedule(
+  schedule: ScheduleDefinition,
+  config: RuntimeConfig,
+  programStore: ProgramStore,
+  location: GeoLocation | null,
+): string | null {
+  if (typeof schedule?.id !== "string" || schedule.id.length === 0) return "Schedule id is required";
+  if (typeof schedule.name !== "string" || schedule.name.length === 0) return "Schedule name is required";
+  if (schedule.enabled !== undefined && typeof schedule.enabled !== "boolean") {
+    return "Schedule enabled must be a boolean";
+  }
+  const triggerError = validateScheduleTrigger(schedule.trigger, location);
+  if (triggerError) return triggerError;
+
+  const action = schedule.action;
+  if (typeof action !== "object" || action === null) return "Schedule action is required";
+  switch (action.type) {
+    case "program":
+      return programStore.get(action.programId) ? null : `Unknown program: ${String(action.programId)}`;
+    case "tempo":
+      return isFiniteNumber(action.spm) && action.spm >= 1 && action.spm <= 500
+        ? null
+        : "Schedule tempo spm must be between 1 and 500";
+    case "blackout":
+      return typeof action.enabled === "boolean" ? null : "Schedule blackout requires enabled";
+    case "layerAScene": {
+      if (!Array.isArray(action.frames) || action.frames.length === 0) return "Schedule scene requires frames";
+      for (const frame of action.frames) {
+        const event = buildLayerASetEvent({ ...frame, fadeMs: action.fadeMs }, config);
+        if (typeof event === "string") return `Schedule scene: ${event}`;
       }
+      return null;
     }
+    default:
+      return "Schedule action type must be program, tempo, blackout or layerAScene";
   }
+}
 
+function validatePlaylist(playlist: PlaylistDefinition, programStore: ProgramStore): string | null {
+  if (typeof playlist?.id !== "string" || playlist.id.length === 0) return "Playlist id is required";
+  if (typeof playlist.name !== "string" || playlist.name.length === 0) return "Playlist name is required";
+  if (playlist.loop !== undefined && typeof playlist.loop !== "boolean") return "Playlist loop must be a boolean";
+  if (!Array.isArray(playlist.entries) || playlist.entries.length === 0) return "Playlist needs at least one entry";
+  for (const [index, entry] of playlist.entries.entries()) {
+    const label = `Playlist entry ${index + 1}`;
+    if (typeof entry !== "object" || entry === null) return `${label} must be an object`;
+    if (!programStore.get(entry.programId)) return `${label}: unknown program ${String(entry.programId)}`;
+    if (entry.repeat !== undefined && entry.durationMs !== undefined) {
+      return `${label} takes either repeat or durationMs`;
+    }
+    if (entry.repeat !== undefined && (!Number.isInteger(entry.repeat) || entry.repeat < 1)) {
+      return `${label} repeat must be a positive integer`;
+    }
+    if (entry.durationMs !== undefined && (!isFiniteNumber(entry.durationMs) || entry.durationMs <= 0)) {
+      return `${label} durationMs must be positive`;
+    }
+    if (entry.crossfadeMs !== undefined && (!isFiniteNumber(entry.crossfadeMs) || entry.crossfadeMs < 0)) {
+      return `${label} crossfadeMs must be a non-negative number`;
+    }
+  }
   return null;
 }
 
@@ -56,8 +374,16 @@ export async function registerRoutes(
   deps: {
     config: RuntimeConfig;
     programStore: ProgramStore;
+    configStore: ConfigStore;
+    playlistStore: PlaylistStore;
+    playlistPlayer: PlaylistPlayer;
+    scheduleStore: ScheduleStore;
+    scheduler: Scheduler;
+    location: GeoLocation | null;
     sequencer: Sequencer;
     wsHub: WsHub;
+    artnetDiscovery: ArtnetDiscovery;
+    handleClientEvent: (event: ClientEvent) => void;
   },
 ): Promise<void> {
   const debug = process.env.CHASER_DEBUG === "1";
@@ -66,6 +392,337 @@ export async function registerRoutes(
 
   app.get("/api/programs", async () => deps.programStore.list());
 
+  app.get("/api/artnet/nodes", async () => deps.artnetDiscovery.list());
+
+  const broadcastConfig = (): void => {
+    deps.wsHub.broadcast({
+      type: "config",
+      payload: { fixtures: deps.configStore.listFixtures(), environments: deps.configStore.listEnvironments() },
+    });
+  };
+
+  app.get("/api/fixtures", async () => deps.configStore.listFixtures());
+
+  app.get<{ Params: { id: string } }>("/api/fixtures/:id", async (request, reply) => {
+    const fixture = deps.configStore.getFixture(request.params.id);
+    if (!fixture) {
+      reply.code(404);
+      return { error: `Fixture not found: ${request.params.id}` };
+    }
+    return fixture;
+  });
+
+  app.post<{ Body: FixtureDefinition }>("/api/fixtures", async (request, reply) => {
+    try {
+      const validationError = validateFixtureDefinition(request.body, deps.config);
+      if (validationError) {
+        reply.code(400);
+        return { error: validationError };
+      }
+
+      const created = await deps.configStore.createFixture(request.body);
+      broadcastConfig();
+      reply.code(201);
+      return created;
+    } catch (error) {
+      reply.code(400);
+      return { error: asErrorMessage(error) };
+    }
+  });
+
+  // Converts an Open Fixture Library fixture file. `dryRun` returns the
+  // conversion without saving it.
+  app.post<{ Body: { fixture?: unknown; dryRun?: boolean } & OflImportOptions }>(
+    "/api/fixtures/import",
+    async (request, reply) => {
+      const body = request.body ?? {};
+      let result: OflImportResult;
+      try {
+        result = importOflFixture(body.fixture, { mode: body.mode, id: body.id, brand: body.brand });
+      } catch (error) {
+        reply.code(400);
+        return { error: asErrorMessage(error) };
+      }
+
+      const validationError = validateFixtureDefinition(result.fixture, deps.config);
+      if (validationError) {
+        reply.code(400);
+        return { error: validationError };
+      }
+      if (body.dryRun) return result;
+
+      try {
+        await deps.configStore.createFixture(result.fixture);
+        broadcastConfig();
+        reply.code(201);
+        return result;
+      } catch (error) {
+        reply.code(400);
+        return { error: asErrorMessage(error) };
+      }
+    },
+  );
+
+  app.put<{ Params: { id: string }; Body: FixtureDefinition }>("/api/fixtures/:id", async (request, reply) => {
+    if (!deps.configStore.getFixture(request.params.id)) {
+      reply.code(404);
+      return { error: `Fixture not found: ${request.params.id}` };
+    }
+    const validationError = request.body?.id !== request.params.id
+      ? "Fixture id cannot change"
+      : validateFixtureDefinition(request.body, deps.config);
+    if (validationError) {
+      reply.code(400);
+      return { error: validationError };
+    }
+    const broken = programBrokenBy(deps.programStore.list(), deps.config, {
+      ...deps.config,
+      fixtures: deps.config.fixtures.map((item) => (item.id === request.params.id ? request.body : item)),
+    });
+    if (broken) {
+      reply.code(400);
+      return { error: `Fixture ${request.params.id} is used by program ${broken.program.id}: ${broken.error}` };
+    }
+    try {
+      const updated = await deps.configStore.updateFixture(request.params.id, request.body);
+      broadcastConfig();
+      return updated;
+    } catch (error) {
+      reply.code(404);
+      return { error: asErrorMessage(error) };
+    }
+  });
+
+  app.delete<{ Params: { id: string } }>("/api/fixtures/:id", async (request, reply) => {
+    const patchedIn = deps.configStore
+      .listEnvironments()
+      .find((environment) => environment.fixtures.some((fixture) => fixture.fixtureTypeId === request.params.id));
+    if (patchedIn) {
+      reply.code(400);
+      return { error: `Fixture ${request.params.id} is still patched in ${patchedIn.id}` };
+    }
+    try {
+      await deps.configStore.removeFixture(request.params.id);
+      broadcastConfig();
+      reply.code(204);
+      return null;
+    } catch (error) {
+      reply.code(404);
+      return { error: asErrorMessage(error) };
+    }
+  });
+
+  app.get("/api/environments", async () => deps.configStore.listEnvironments());
+
+  app.get<{ Params: { id: string } }>("/api/environments/:id", async (request, reply) => {
+    const environment = deps.configStore.getEnvironment(request.params.id);
+    if (!environment) {
+      reply.code(404);
+      return { error: `Environment not found: ${request.params.id}` };
+    }
+    return environment;
+  });
+
+  app.get<{ Params: { id: string } }>("/api/environments/:id/patch", async (request, reply) => {
+    const environment = deps.configStore.getEnvironment(request.params.id);
+    if (!environment) {
+      reply.code(404);
+      return { error: `Environment not found: ${request.params.id}` };
+    }
+    return analyzePatch(environment, deps.config.fixtures);
+  });
+
+  app.post<{ Body: EnvironmentDefinition }>("/api/environments", async (request, reply) => {
+    try {
+      const validationError = validateEnvironment(request.body, deps.config);
+      if (validationError) {
+        reply.code(400);
+        return { error: validationError };
+      }
+
+      const created = await deps.configStore.createEnvironment(request.body);
+      broadcastConfig();
+      reply.code(201);
+      return created;
+    } catch (error) {
+      reply.code(400);
+      return { error: asErrorMessage(error) };
+    }
+  });
+
+  app.put<{ Params: { id: string }; Body: EnvironmentDefinition }>(
+    "/api/environments/:id",
+    async (request, reply) => {
+      if (!deps.configStore.getEnvironment(request.params.id)) {
+        reply.code(404);
+        return { error: `Environment not found: ${request.params.id}` };
+      }
+      const validationError = request.body?.id !== request.params.id
+        ? "Environment id cannot change"
+        : validateEnvironment(request.body, deps.config);
+      if (validationError) {
+        reply.code(400);
+        return { error: validationError };
+      }
+      const programs = deps.programStore.list().filter((item) => item.environmentId === request.params.id);
+      const broken = programBrokenBy(programs, deps.config, {
+        ...deps.config,
+        environments: deps.config.environments.map((item) => (item.id === request.params.id ? request.body : item)),
+      });
+      if (broken) {
+        reply.code(400);
+        return { error: `Environment ${request.params.id} is used by program ${broken.program.id}: ${broken.error}` };
+      }
+      try {
+        const updated = await deps.configStore.updateEnvironment(request.params.id, request.body);
+        broadcastConfig();
+        return updated;
+      } catch (error) {
+        reply.code(404);
+        return { error: asErrorMessage(error) };
+      }
+    },
+  );
+
+  app.delete<{ Params: { id: string } }>("/api/environments/:id", async (request, reply) => {
+    const program = deps.programStore.list().find((item) => item.environmentId === request.params.id);
+    if (program) {
+      reply.code(400);
+      return { error: `Environment ${request.params.id} is used by program ${program.id}` };
+    }
+    try {
+      await deps.configStore.removeEnvironment(request.params.id);
+      broadcastConfig();
+      reply.code(204);
+      return null;
+    } catch (error) {
+      reply.code(404);
+      return { error: asErrorMessage(error) };
+    }
+  });
+
+  app.get("/api/state", async () => {
+    const frame = deps.sequencer.getFrame();
+    return {
+      state: frame.state,
+      playbacks: frame.playbacks,
+      values: frame.values,
+      layerAValues: frame.layerAValues,
+      effects: frame.effects,
+    };
+  });
+
+  app.post<{ Params: { command: string }; Body: unknown }>(
+    "/api/transport/:command",
+    async (request, reply) => {
+      const { command } = request.params;
+      if (!isTransportCommand(command)) {
+        reply.code(404);
+        return { error: `Unknown transport command: ${command}` };
+      }
+      const event = buildTransportEvent(command, request.body, deps);
+      if (typeof event === "string") {
+        reply.code(400);
+        return { error: event };
+      }
+      deps.handleClientEvent(event);
+      const playbackId = event.payload && "playbackId" in event.payload ? event.payload.playbackId : undefined;
+      return deps.sequencer.getState(playbackId);
+    },
+  );
+
+  app.post<{ Body: unknown }>("/api/layer-a/set", async (request, reply) => {
+    const event = buildLayerASetEvent(request.body, deps.config);
+    if (typeof event === "string") {
+      reply.code(400);
+      return { error: event };
+    }
+    deps.handleClientEvent(event);
+    reply.code(204);
+    return null;
+  });
+
+  app.post<{ Body: unknown }>("/api/layer-a/clear", async (request, reply) => {
+    const event = buildLayerAClearEvent(request.body, deps.config);
+    if (typeof event === "string") {
+      reply.code(400);
+      return { error: event };
+    }
+    deps.handleClientEvent(event);
+    reply.code(204);
+    return null;
+  });
+
+  app.put<{ Params: { id: string }; Body: { priority?: unknown; mergeMode?: unknown; fixtureIds?: unknown } }>(
+    "/api/playbacks/:id",
+    async (request, reply) => {
+      const { priority, mergeMode, fixtureIds } = request.body ?? {};
+      if (priority !== undefined && (typeof priority !== "number" || !Number.isFinite(priority))) {
+        reply.code(400);
+        return { error: "priority must be a number" };
+      }
+      if (mergeMode !== undefined && mergeMode !== "htp" && mergeMode !== "ltp") {
+        reply.code(400);
+        return { error: "mergeMode must be htp or ltp" };
+      }
+      if (
+        fixtureIds !== undefined
+        && fixtureIds !== null
+        && !(Array.isArray(fixtureIds) && fixtureIds.every((item) => typeof item === "string"))
+      ) {
+        reply.code(400);
+        return { error: "fixtureIds must be an array of fixture ids or null" };
+      }
+      deps.handleClientEvent({
+        type: "playbackConfigure",
+        payload: {
+          playbackId: request.params.id,
+          priority,
+          mergeMode,
+          fixtureIds: fixtureIds as string[] | null | undefined,
+        },
+      });
+      return deps.sequencer.getState(request.params.id);
+    },
+  );
+
+  app.delete<{ Params: { id: string } }>("/api/playbacks/:id", async (request, reply) => {
+    const exists = deps.sequencer.getPlaybackStates().some((item) => item.playbackId === request.params.id);
+    if (!exists) {
+      reply.code(404);
+      return { error: `Playback not found: ${request.params.id}` };
+    }
+    if (request.params.id === DEFAULT_PLAYBACK_ID) {
+      reply.code(400);
+      return { error: "The main playback cannot be removed" };
+    }
+    deps.handleClientEvent({ type: "playbackRemove", payload: { playbackId: request.params.id } });
+    reply.code(204);
+    return null;
+  });
+
+  app.post<{ Body: unknown }>("/api/effects", async (request, reply) => {
+    const event = buildEffectStartEvent(request.body);
+    if (typeof event === "string") {
+      reply.code(400);
+      return { error: event };
+    }
+    deps.handleClientEvent(event);
+    reply.code(201);
+    return event.payload;
+  });
+
+  app.delete<{ Params: { id: string } }>("/api/effects/:id", async (request, reply) => {
+    const running = deps.sequencer.getFrame().effects.some((effect) => effect.id === request.params.id);
+    if (!running) {
+      reply.code(404);
+      return { error: `Effect not running: ${request.params.id}` };
+    }
+    deps.handleClientEvent({ type: "effectStop", payload: { effectId: request.params.id } });
+    reply.code(204);
+    return null;
+  });
+
   app.post<{ Body: ProgramDefinition }>("/api/programs", async (request, reply) => {
     try {
       const validationError = validateProgram(request.body, deps.config);
@@ -113,14 +770,18 @@ export async function registerRoutes(
         }
 
         const updated = await deps.programStore.update(request.params.id, request.body);
-        if (deps.sequencer.getProgramId() === updated.id) {
-          const currentState = deps.sequencer.getState();
+        const activePlaybacks = deps.sequencer
+          .getPlaybackStates()
+          .filter((playback) => playback.programId === updated.id);
+        for (const currentState of activePlaybacks) {
+          const playbackId = currentState.playbackId;
           if (debug) {
             app.log.info(
               {
                 tag: "sync-debug",
                 phase: "before-active-program-update",
                 programId: updated.id,
+                playbackId,
                 stepIndex: currentState.stepIndex,
                 isPlaying: currentState.isPlaying,
                 positionMs: currentState.positionMs,
@@ -129,23 +790,25 @@ export async function registerRoutes(
               "Applying active program update",
             );
           }
-          deps.sequencer.setProgram(updated, {
+          deps.sequencer.setProgram(resolveProgramValues(updated, deps.config), {
             preservePlayhead: true,
             suppressEmit: true,
             preserveTempo: true,
+            playbackId,
           });
           const environment = deps.config.environments.find(
             (item) => item.id === updated.environmentId,
           );
           deps.sequencer.setFrameRate(environment?.renderFps ?? 30);
-          deps.sequencer.applyStateSnapshot(currentState);
+          deps.sequencer.applyStateSnapshot(currentState, playbackId);
           if (debug) {
-            const afterState = deps.sequencer.getState();
+            const afterState = deps.sequencer.getState(playbackId);
             app.log.info(
               {
                 tag: "sync-debug",
                 phase: "after-active-program-update",
                 programId: updated.id,
+                playbackId,
                 stepIndex: afterState.stepIndex,
                 isPlaying: afterState.isPlaying,
                 positionMs: afterState.positionMs,
@@ -167,6 +830,20 @@ export async function registerRoutes(
   );
 
   app.delete<{ Params: { id: string } }>("/api/programs/:id", async (request, reply) => {
+    const listedBy = deps.playlistStore
+      .list()
+      .find((playlist) => playlist.entries.some((entry) => entry.programId === request.params.id));
+    if (listedBy) {
+      reply.code(400);
+      return { error: `Program ${request.params.id} is used by playlist ${listedBy.id}` };
+    }
+    const scheduledBy = deps.scheduleStore
+      .list()
+      .find((schedule) => schedule.action.type === "program" && schedule.action.programId === request.params.id);
+    if (scheduledBy) {
+      reply.code(400);
+      return { error: `Program ${request.params.id} is used by schedule ${scheduledBy.id}` };
+    }
     try {
       await deps.programStore.remove(request.params.id);
       deps.wsHub.broadcast({ type: "programs", payload: deps.programStore.list() });
@@ -177,4 +854,193 @@ export async function registerRoutes(
       return { error: asErrorMessage(error) };
     }
   });
+
+  const broadcastPlaylists = (): void => {
+    deps.wsHub.broadcast({ type: "playlists", payload: deps.playlistStore.list() });
+  };
+
+  app.get("/api/playlists", async () => deps.playlistStore.list());
+
+  // Running playlists, one per playback at most.
+  app.get("/api/playlists/active", async () => deps.playlistPlayer.getStates());
+
+  app.get<{ Params: { id: string } }>("/api/playlists/:id", async (request, reply) => {
+    const playlist = deps.playlistStore.get(request.params.id);
+    if (!playlist) {
+      reply.code(404);
+      return { error: `Playlist not found: ${request.params.id}` };
+    }
+    return playlist;
+  });
+
+  app.post<{ Body: PlaylistDefinition }>("/api/playlists", async (request, reply) => {
+    const validationError = validatePlaylist(request.body, deps.programStore);
+    if (validationError) {
+      reply.code(400);
+      return { error: validationError };
+    }
+    try {
+      const created = await deps.playlistStore.create(request.body);
+      broadcastPlaylists();
+      reply.code(201);
+      return created;
+    } catch (error) {
+      reply.code(400);
+      return { error: asErrorMessage(error) };
+    }
+  });
+
+  app.put<{ Params: { id: string }; Body: PlaylistDefinition }>("/api/playlists/:id", async (request, reply) => {
+    if (!deps.playlistStore.get(request.params.id)) {
+      reply.code(404);
+      return { error: `Playlist not found: ${request.params.id}` };
+    }
+    const validationError = request.body?.id !== request.params.id
+      ? "Playlist id cannot change"
+      : validatePlaylist(request.body, deps.programStore);
+    if (validationError) {
+      reply.code(400);
+      return { error: validationError };
+    }
+    try {
+      const updated = await deps.playlistStore.update(request.params.id, request.body);
+      broadcastPlaylists();
+      return updated;
+    } catch (error) {
+      reply.code(404);
+      return { error: asErrorMessage(error) };
+    }
+  });
+
+  app.delete<{ Params: { id: string } }>("/api/playlists/:id", async (request, reply) => {
+    try {
+      await deps.playlistStore.remove(request.params.id);
+      broadcastPlaylists();
+      reply.code(204);
+      return null;
+    } catch (error) {
+      reply.code(404);
+      return { error: asErrorMessage(error) };
+    }
+  });
+
+  app.post<{ Params: { id: string }; Body: { playbackId?: unknown } }>(
+    "/api/playlists/:id/start",
+    async (request, reply) => {
+      if (!deps.playlistStore.get(request.params.id)) {
+        reply.code(404);
+        return { error: `Playlist not found: ${request.params.id}` };
+      }
+      const playbackId = request.body?.playbackId;
+      if (playbackId !== undefined && (typeof playbackId !== "string" || playbackId.length === 0)) {
+        reply.code(400);
+        return { error: "playbackId must be a non-empty string" };
+      }
+      deps.handleClientEvent({ type: "playlistStart", payload: { playlistId: request.params.id, playbackId } });
+      return deps.playlistPlayer.getStates().find((state) => state.playbackId === (playbackId ?? DEFAULT_PLAYBACK_ID))
+        ?? null;
+    },
+  );
+
+  // `stop` leaves the current program playing; `next` crossfades to the
+  // following entry.
+  for (const command of ["stop", "next"] as const) {
+    app.post<{ Body: { playbackId?: unknown } }>(`/api/playlists/${command}`, async (request, reply) => {
+      const playbackId = request.body?.playbackId;
+      if (playbackId !== undefined && (typeof playbackId !== "string" || playbackId.length === 0)) {
+        reply.code(400);
+        return { error: "playbackId must be a non-empty string" };
+      }
+      deps.handleClientEvent({
+        type: command === "stop" ? "playlistStop" : "playlistNext",
+        payload: playbackId ? { playbackId } : undefined,
+      });
+      reply.code(204);
+      return null;
+    });
+  }
+
+  app.get("/api/schedules", async () => deps.scheduleStore.list());
+
+  // Upcoming fires of all enabled schedules, soonest first.
+  app.get<{ Querystring: { limit?: string } }>("/api/schedules/next", async (request) => {
+    const limit = Number(request.query.limit ?? 10);
+    return deps.scheduler.upcoming(Number.isInteger(limit) && limit > 0 ? limit : 10);
+  });
+
+  app.get<{ Params: { id: string } }>("/api/schedules/:id", async (request, reply) => {
+    const schedule = deps.scheduleStore.get(request.params.id);
+    if (!schedule) {
+      reply.code(404);
+      return { error: `Schedule not found: ${request.params.id}` };
+    }
+    return schedule;
+  });
+
+  // Next fire times of one schedule, whether or not it is enabled.
+  app.get<{ Params: { id: string }; Querystring: { count?: string } }>(
+    "/api/schedules/:id/next",
+    async (request, reply) => {
+      const schedule = deps.scheduleStore.get(request.params.id);
+      if (!schedule) {
+        reply.code(404);
+        return { error: `Schedule not found: ${request.params.id}` };
+      }
+      const count = Number(request.query.count ?? 5);
+      const times = nextFireTimes(
+        schedule.trigger,
+        new Date(),
+        deps.location,
+        Number.isInteger(count) && count > 0 ? Math.min(count, 100) : 5,
+      );
+      return { scheduleId: schedule.id, fires: times.map((time) => time.toISOString()) };
+    },
+  );
+
+  app.post<{ Body: ScheduleDefinition }>("/api/schedules", async (request, reply) => {
+    const validationError = validateSchedule(request.body, deps.config, deps.programStore, deps.location);
+    if (validationError) {
+      reply.code(400);
+      return { error: validationError };
+    }
+    try {
+      const created = await deps.scheduleStore.create(request.body);
+      reply.code(201);
+      return created;
+    } catch (error) {
+      reply.code(400);
+      return { error: asErrorMessage(error) };
+    }
+  });
+
+  app.put<{ Params: { id: string }; Body: ScheduleDefinition }>("/api/schedules/:id", async (request, reply) => {
+    if (!deps.scheduleStore.get(request.params.id)) {
+      reply.code(404);
+      return { error: `Schedule not found: ${request.params.id}` };
+    }
+    const validationError = request.body?.id !== request.params.id
+      ? "Schedule id cannot change"
+      : validateSchedule(request.body, deps.config, deps.programStore, deps.location);
+    if (validationError) {
+      reply.code(400);
+      return { error: validationError };
+    }
+    try {
+      return await deps.scheduleStore.update(request.params.id, request.body);
+    } catch (error) {
+      reply.code(404);
+      return { error: asErrorMessage(error) };
+    }
+  });
+
+  app.delete<{ Params: { id: string } }>("/api/schedules/:id", async (request, reply) => {
+    try {
+      await deps.scheduleStore.remove(request.params.id);
+      reply.code(204);
+      return null;
+    } catch (error) {
+      reply.code(404);
+      return { error: asErrorMessage(error) };
+    }
+  });
 }
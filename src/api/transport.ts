@@ -0,0 +1,185 @@
+import { normalizeEffect } from "../core/effects.js";
+import { isKelvinValue, validateKelvinValue } from "../core/cct.js";
+import { acceptedValueCounts } from "../core/feature-kinds.js";
+import { featureMaxValue } from "../core/feature-values.js";
+import { PLAYBACK_DIRECTIONS, isPlaybackDirection } from "../core/step-order.js";
+import type { ProgramStore } from "../core/program-store.js";
+import type { Sequencer } from "../core/sequencer.js";
+import type { ClientEvent } from "../ws/protocol.js";
+import type { FeatureValue, KelvinValue, RuntimeConfig } from "../config/types.js";
+
+export const TRANSPORT_COMMANDS = [
+  "play",
+  "pause",
+  "next",
+  "previous",
+  "seek",
+  "tempo",
+  "loop",
+  "direction",
+  "blackout",
+  "program",
+] as const;
+
+export type TransportCommand = (typeof TRANSPORT_COMMANDS)[number];
+
+type Body = Record<string, unknown>;
+
+export function isTransportCommand(value: string): value is TransportCommand {
+  return (TRANSPORT_COMMANDS as readonly string[]).includes(value);
+}
+
+function asBody(value: unknown): Body {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? (value as Body) : {};
+}
+
+function validatePlaybackId(body: Body): string | null {
+  if (body.playbackId === undefined) return null;
+  return typeof body.playbackId === "string" && body.playbackId.length > 0
+    ? null
+    : "playbackId must be a non-empty string";
+}
+
+function validateFadeMs(body: Body): string | null {
+  if (body.fadeMs === undefined) return null;
+  return typeof body.fadeMs === "number" && Number.isFinite(body.fadeMs) && body.fadeMs >= 0
+    ? null
+    : "fadeMs must be a non-negative number";
+}
+
+export function findFeature(config: RuntimeConfig, fixtureId: string, featureId: string) {
+  for (const environment of config.environments) {
+    const fixture = environment.fixtures.find((item) => item.id === fixtureId);
+    if (!fixture) continue;
+    const fixtureDef = config.fixtures.find((item) => item.id === fixture.fixtureTypeId);
+    return fixtureDef?.features.find((item) => item.id === featureId) ?? null;
+  }
+  return null;
+}
+
+function hasFixture(config: RuntimeConfig, fixtureId: string): boolean {
+  return config.environments.some((environment) => environment.fixtures.some((item) => item.id === fixtureId));
+}
+
+// Builds the ClientEvent a REST transport call stands for, so REST, WS and
+// OSC all end up in the same handler. Returns an error message instead when
+// the body is invalid.
+export function buildTransportEvent(
+  command: TransportCommand,
+  input: unknown,
+  deps: { programStore: ProgramStore; sequencer: Sequencer },
+): ClientEvent | string {
+  const body = asBody(input);
+  const playbackError = validatePlaybackId(body);
+  if (playbackError) return playbackError;
+  const playbackId = body.playbackId as string | undefined;
+  const target = playbackId ? { playbackId } : undefined;
+
+  switch (command) {
+    case "play":
+    case "pause":
+    case "next":
+    case "previous":
+      return { type: command, payload: target };
+    case "seek": {
+      const stepIndex = body.stepIndex;
+      if (typeof stepIndex !== "number" || !Number.isInteger(stepIndex) || stepIndex < 0) {
+        return "stepIndex must be a non-negative integer";
+      }
+      const programId = deps.sequencer.getProgramId(playbackId);
+      const program = programId ? deps.programStore.get(programId) : undefined;
+      if (!program) return "No program loaded on playback";
+      if (stepIndex >= program.steps.length) {
+        return `stepIndex must be below ${program.steps.length}`;
+      }
+      return { type: "seek", payload: { stepIndex, ...target } };
+    }
+    case "tempo": {
+      const spm = body.spm;
+      if (typeof spm !== "number" || !Number.isFinite(spm) || spm < 1 || spm > 500) {
+        return "spm must be a number between 1 and 500";
+      }
+      return { type: "tempo", payload: { spm, ...target } };
+    }
+    case "loop":
+    case "blackout": {
+      if (typeof body.enabled !== "boolean") return "enabled must be a boolean";
+      if (command === "blackout") {
+        return playbackId ? "blackout is global and takes no playbackId" : { type: "blackout", payload: { enabled: body.enabled } };
+      }
+      return { type: "loop", payload: { enabled: body.enabled, ...target } };
+    }
+    case "direction":
+      return isPlaybackDirection(body.direction)
+        ? { type: "direction", payload: { direction: body.direction, ...target } }
+        : `direction must be one of: ${PLAYBACK_DIRECTIONS.join(", ")}`;
+    case "program": {
+      if (typeof body.programId !== "string" || body.programId.length === 0) {
+        return "programId must be a non-empty string";
+      }
+      if (!deps.programStore.get(body.programId)) return `Program not found: ${body.programId}`;
+      const crossfadeMs = body.crossfadeMs;
+      if (crossfadeMs !== undefined && (typeof crossfadeMs !== "number" || !Number.isFinite(crossfadeMs) || crossfadeMs < 0)) {
+        return "crossfadeMs must be a non-negative number";
+      }
+      return { type: "program", payload: { programId: body.programId, crossfadeMs, ...target } };
+    }
+  }
+}
+
+export function buildLayerASetEvent(input: unknown, config: RuntimeConfig): ClientEvent | string {
+  const body = asBody(input);
+  if (typeof body.fixtureId !== "string" || typeof body.featureId !== "string") {
+    return "fixtureId and featureId are required";
+  }
+  const feature = findFeature(config, body.fixtureId, body.featureId);
+  if (!feature) return `Unknown feature ${body.featureId} on ${body.fixtureId}`;
+  if (isKelvinValue(body.value)) {
+    const kelvinError = validateKelvinValue(feature, body.value);
+    if (kelvinError) return `${body.fixtureId}:${body.featureId} ${kelvinError}`;
+  } else {
+    const values = Array.isArray(body.value) ? body.value : [body.value];
+    const maxValue = featureMaxValue(feature);
+    if (values.some((value) => typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > maxValue)) {
+      return `value must be a number or array of numbers between 0 and ${maxValue}`;
+    }
+    const expectedCounts = acceptedValueCounts(feature);
+    if (Array.isArray(body.value) && !expectedCounts.includes(values.length)) {
+      return `${body.fixtureId}:${body.featureId} expected ${expectedCounts.join(" or ")} values`;
+    }
+  }
+  const fadeError = validateFadeMs(body);
+  if (fadeError) return fadeError;
+  return {
+    type: "layerASet",
+    payload: {
+      fixtureId: body.fixtureId,
+      featureId: body.featureId,
+      value: body.value as FeatureValue | KelvinValue,
+      fadeMs: body.fadeMs as number | undefined,
+    },
+  };
+}
+
+// Without featureId the whole fixture is cleared.
+export function buildLayerAClearEvent(input: unknown, config: RuntimeConfig): ClientEvent | string {
+  const body = asBody(input);
+  if (typeof body.fixtureId !== "string") return "fixtureId is required";
+  if (!hasFixture(config, body.fixtureId)) return `Unknown fixture ${body.fixtureId}`;
+  const fadeError = validateFadeMs(body);
+  if (fadeError) return fadeError;
+  const fadeMs = body.fadeMs as number | undefined;
+  if (body.featureId === undefined) {
+    return { type: "layerAClearFixture", payload: { fixtureId: body.fixtureId, fadeMs } };
+  }
+  if (typeof body.featureId !== "string" || !findFeature(config, body.fixtureId, body.featureId)) {
+    return `Unknown feature ${String(body.featureId)} on ${body.fixtureId}`;
+  }
+  return { type: "layerAClearFeature", payload: { fixtureId: body.fixtureId, featureId: body.featureId, fadeMs } };
+}
+
+export function buildEffectStartEvent(input: unknown): ClientEvent | string {
+  const effect = normalizeEffect(input);
+  if (!effect) return "Effect requires an id and a known generator";
+  return { type: "effectStart", payload: effect };
+}
@@ -3,8 +3,10 @@ import { resolve } from "node:path";
 import type {
   EnvironmentDefinition,
   FixtureDefinition,
+  PlaylistDefinition,
   ProgramDefinition,
   RuntimeConfig,
+  ScheduleDefinition,
 } from "./types.js";
 
 function clampSpm(value: unknown): number {
@@ -36,3 +38,23 @@ export async function loadRuntimeConfig(): Promise<RuntimeConfig> {
 
   return { fixtures, environments, programs: programs.map(normalizeProgram) };
 }
+
+// Schedules are optional; without data/schedules.json nothing is scheduled.
+export async function loadSchedules(): Promise<ScheduleDefinition[]> {
+  try {
+    return await readJsonFile<ScheduleDefinition[]>("data/schedules.json");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+// Playlists are optional as well.
+export async function loadPlaylists(): Promise<PlaylistDefinition[]> {
+  try {
+    return await readJsonFile<PlaylistDefinition[]>("data/playlists.json");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
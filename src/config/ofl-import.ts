@@ -0,0 +1,242 @@
+import type { FixtureDefinition, FixtureFeature } from "./types.js";
+
+// Subset of the Open Fixture Library fixture format that the importer reads.
+// https://github.com/OpenLightingProject/open-fixture-library/blob/master/docs/fixture-format.md
+type OflCapability = {
+  type?: string;
+  color?: string;
+};
+
+type OflChannel = {
+  name?: string;
+  fineChannelAliases?: string[];
+  capability?: OflCapability;
+  capabilities?: OflCapability[];
+};
+
+type OflMode = {
+  name: string;
+  shortName?: string;
+  channels: Array<string | null | Record<string, unknown>>;
+};
+
+type OflFixture = {
+  name: string;
+  shortName?: string;
+  physical?: { dimensions?: number[] };
+  availableChannels?: Record<string, OflChannel>;
+  modes: OflMode[];
+};
+
+export type OflImportOptions = {
+  mode?: string;
+  id?: string;
+  brand?: string;
+};
+
+export type OflUnmappedChannel = {
+  channel: number;
+  name: string | null;
+  reason: string;
+};
+
+export type OflImportResult = {
+  fixture: FixtureDefinition;
+  mode: string;
+  availableModes: string[];
+  unmapped: OflUnmappedChannel[];
+};
+
+type ColorRole = "red" | "green" | "blue" | "white" | "warmWhite" | "coldWhite";
+
+type MappedChannel = {
+  key: string;
+  channel: number;
+  name: string;
+  role: ColorRole | "dimmer" | "other";
+};
+
+const DEFAULT_DIMENSIONS_MM = { width: 300, height: 300, depth: 100 };
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function asOflFixture(input: unknown): OflFixture {
+  if (typeof input !== "object" || input === null) throw new Error("OFL fixture must be an object");
+  const fixture = input as Partial<OflFixture>;
+  if (typeof fixture.name !== "string" || fixture.name.length === 0) throw new Error("OFL fixture requires a name");
+  if (!Array.isArray(fixture.modes) || fixture.modes.length === 0) throw new Error("OFL fixture has no modes");
+  for (const mode of fixture.modes) {
+    if (typeof mode?.name !== "string" || !Array.isArray(mode.channels)) {
+      throw new Error("OFL fixture has an invalid mode");
+    }
+  }
+  return fixture as OflFixture;
+}
+
+function colorRole(color: string | undefined): ColorRole | null {
+  switch (color) {
+    case "Red":
+      return "red";
+    case "Green":
+      return "green";
+    case "Blue":
+      return "blue";
+    case "White":
+      return "white";
+    case "Warm White":
+      return "warmWhite";
+    case "Cold White":
+      return "coldWhite";
+    default:
+      return null;
+  }
+}
+
+// A channel counts as a color or dimmer only when it does nothing else;
+// channels with several capabilities (strobe, macros, ...) import as scalar.
+function classifyChannel(channel: OflChannel): MappedChannel["role"] {
+  const capabilities = channel.capability ? [channel.capability] : channel.capabilities ?? [];
+  if (capabilities.length !== 1) return "other";
+  const [capability] = capabilities;
+  if (capability.type === "Intensity") return "dimmer";
+  if (capability.type === "ColorIntensity") return colorRole(capability.color) ?? "other";
+  return "other";
+}
+
+function findFineAliasOwner(
+  channels: Record<string, OflChannel>,
+  name: string,
+): { key: string; depth: number } | null {
+  for (const [key, channel] of Object.entries(channels)) {
+    const index = channel.fineChannelAliases?.indexOf(name) ?? -1;
+    if (index >= 0) return { key, depth: index + 1 };
+  }
+  return null;
+}
+
+// Converts one mode of an OFL fixture into a FixtureDefinition. Complete
+// red/green/blue sets become `rgb` features and warm/cold white pairs become
+// `cct`; everything else (dimmer, lone white, amber, strobe, ...) is a scalar.
+// Fine channels make a feature 16-bit when every one of its channels has
+// one. Channels without a usable definition are listed in `unmapped` and
+// left out of the features, but still count towards the footprint.
+export function importOflFixture(input: unknown, options: OflImportOptions = {}): OflImportResult {
+  const ofl = asOflFixture(input);
+  const mode = options.mode
+    ? ofl.modes.find((item) => item.name === options.mode || item.shortName === options.mode)
+    : ofl.modes[0];
+  if (!mode) throw new Error(`OFL mode not found: ${options.mode}`);
+  if (mode.channels.length === 0 || mode.channels.length > 512) {
+    throw new Error(`OFL mode ${mode.name} must have between 1 and 512 channels`);
+  }
+
+  const availableChannels = ofl.availableChannels ?? {};
+  const unmapped: OflUnmappedChannel[] = [];
+  const mapped: MappedChannel[] = [];
+  const fineByOwner = new Map<string, { channel: number; name: string }>();
+
+  mode.channels.forEach((entry, index) => {
+    const channel = index + 1;
+    if (entry === null) {
+      unmapped.push({ channel, name: null, reason: "empty slot" });
+      return;
+    }
+    if (typeof entry !== "string") {
+      unmapped.push({ channel, name: null, reason: "matrix channel inserts are not supported" });
+      return;
+    }
+    const definition = availableChannels[entry];
+    if (!definition) {
+      const owner = findFineAliasOwner(availableChannels, entry);
+      if (owner?.depth === 1) {
+        fineByOwner.set(owner.key, { channel, name: entry });
+        return;
+      }
+      unmapped.push({
+        channel,
+        name: entry,
+        reason: owner ? `fine channel of ${owner.key} beyond 16-bit` : "not defined in availableChannels",
+      });
+      return;
+    }
+    mapped.push({ key: entry, channel, name: definition.name ?? entry, role: classifyChannel(definition) });
+  });
+
+  const byRole = (role: MappedChannel["role"]) => mapped.filter((item) => item.role === role);
+  const features: FixtureFeature[] = [];
+  const used = new Set<MappedChannel>();
+  const usedFeatureIds = new Set<string>();
+  const usedFineOwners = new Set<string>();
+  const addFeature = (baseId: string, label: string, kind: FixtureFeature["kind"], channels: MappedChannel[]) => {
+    let id = baseId;
+    for (let suffix = 2; usedFeatureIds.has(id); suffix += 1) id = `${baseId}-${suffix}`;
+    usedFeatureIds.add(id);
+    for (const item of channels) used.add(item);
+    const feature: FixtureFeature = {
+      id,
+      label,
+      channels: channels.map((item) => item.channel),
+      kind,
+      range: { min: 0, max: 255 },
+    };
+    const fine = channels.map((item) => fineByOwner.get(item.key));
+    if (fine.every((item) => item !== undefined)) {
+      feature.fineChannels = fine.map((item) => item.channel);
+      for (const item of channels) usedFineOwners.add(item.key);
+    }
+    features.push(feature);
+  };
+
+  // Pixel fixtures repeat the color set; the n-th red pairs with the n-th
+  // green and blue.
+  const [reds, greens, blues] = [byRole("red"), byRole("green"), byRole("blue")];
+  const rgbCount = Math.min(reds.length, greens.length, blues.length);
+  for (let i = 0; i < rgbCount; i += 1) {
+    const label = rgbCount > 1 ? `Color RGB ${i + 1}` : "Color RGB";
+    addFeature(rgbCount > 1 ? `color-rgb-${i + 1}` : "color-rgb", label, "rgb", [reds[i], greens[i], blues[i]]);
+  }
+
+  const [warms, colds] = [byRole("warmWhite"), byRole("coldWhite")];
+  const cctCount = Math.min(warms.length, colds.length);
+  for (let i = 0; i < cctCount; i += 1) {
+    const label = cctCount > 1 ? `White CCT ${i + 1}` : "White CCT";
+    addFeature(cctCount > 1 ? `white-cct-${i + 1}` : "white-cct", label, "cct", [warms[i], colds[i]]);
+  }
+
+  for (const item of mapped) {
+    if (used.has(item)) continue;
+    addFeature(slugify(item.name) || `channel-${item.channel}`, item.name, "scalar", [item]);
+  }
+  features.sort((a, b) => a.channels[0] - b.channels[0]);
+
+  for (const [owner, fine] of fineByOwner) {
+    if (usedFineOwners.has(owner)) continue;
+    unmapped.push({ channel: fine.channel, name: fine.name, reason: `fine channel of ${owner} without a 16-bit feature` });
+  }
+  unmapped.sort((a, b) => a.channel - b.channel);
+
+  const [width, height, depth] = ofl.physical?.dimensions ?? [];
+  const dimensionsMm = [width, height, depth].every((value) => typeof value === "number" && value > 0)
+    ? { width, height, depth }
+    : { ...DEFAULT_DIMENSIONS_MM };
+
+  const modeSuffix = ofl.modes.length > 1 ? `-${slugify(mode.shortName ?? mode.name)}` : "";
+  return {
+    fixture: {
+      id: options.id ?? `fixture-${slugify(ofl.shortName ?? ofl.name)}${modeSuffix}`,
+      name: ofl.modes.length > 1 ? `${ofl.name} (${mode.name})` : ofl.name,
+      brand: options.brand ?? "Generic",
+      dimensionsMm,
+      channels: mode.channels.length,
+      features,
+    },
+    mode: mode.name,
+    availableModes: ofl.modes.map((item) => item.name),
+    unmapped,
+  };
+}
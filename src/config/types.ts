@@ -5,7 +5,27 @@ export type ChannelRange = {
   max: number;
 };
 
-export type FeatureKind = "scalar" | "rgb" | "cct";
+// rgbw, rgba and hsi features take RGB values like `rgb`; the renderer
+// derives the white, amber or hue/saturation/intensity channels.
+export type FeatureKind =
+  | "scalar"
+  | "rgb"
+  | "cct"
+  | "rgbw"
+  | "rgba"
+  | "hsi"
+  | "strobe"
+  | "pan-tilt"
+  | "color-wheel";
+
+// A named DMX range on a color wheel channel. `color` is only used for the
+// simulator preview.
+export type ColorWheelSlot = {
+  name: string;
+  min: number;
+  max: number;
+  color?: [number, number, number];
+};
 
 export type FixtureFeature = {
   id: string;
@@ -13,6 +33,49 @@ export type FixtureFeature = {
   channels: number[];
   kind: FeatureKind;
   range?: ChannelRange;
+  // strobe: DMX value sent when the strobe is off (value 0); `range` holds
+  // the DMX span for rates from `minHz` to `maxHz`.
+  strobe?: { offValue?: number; minHz?: number; maxHz?: number };
+  // pan-tilt: travel in degrees, for display.
+  panTilt?: { panDeg?: number; tiltDeg?: number };
+  // color-wheel: the value is the slot index.
+  slots?: ColorWheelSlot[];
+  // Fine (LSB) channel for each entry of `channels`. A feature with fine
+  // channels is 16-bit and carries 0..65535 values instead of 0..255.
+  fineChannels?: number[];
+};
+
+export type DimmerCurve =
+  | "linear"
+  | "square"
+  | "s-curve"
+  // Evenly spaced output levels (0..1) from input 0 to input 1.
+  | { type: "lut"; table: number[] };
+
+// Output correction, applied after range scaling: white balance on RGB
+// features, then per-channel gamma, then the dimmer curve.
+export type FixtureCalibration = {
+  dimmerCurve?: DimmerCurve;
+  // One exponent for every channel, or exponents keyed by fixture channel.
+  gamma?: number | Record<string, number>;
+  // Row-major 3x3 matrix mapping requested RGB to output RGB.
+  whiteBalance?: [
+    [number, number, number],
+    [number, number, number],
+    [number, number, number],
+  ];
+  cct?: CctCalibration;
+};
+
+// How a kelvin request is split between the warm and cool emitters:
+// `linear` keeps WW + CW equal to the intensity, `max-brightness` drives the
+// dominant emitter at the intensity and scales the other to hold the ratio.
+export type CctMixMode = "linear" | "max-brightness";
+
+export type CctCalibration = {
+  warmKelvin: number;
+  coolKelvin: number;
+  mix?: CctMixMode;
 };
 
 export type FixtureDefinition = {
@@ -23,6 +86,7 @@ export type FixtureDefinition = {
   channels: number;
   dimmerColorRgb?: [number, number, number];
   features: FixtureFeature[];
+  calibration?: FixtureCalibration;
 };
 
 export type EnvironmentFixture = {
@@ -34,6 +98,13 @@ export type EnvironmentFixture = {
   position2d: { x: number; y: number };
   orientationDeg?: number;
   mqttExpose?: boolean;
+  group?: string;
+};
+
+export type ArtnetPortAddress = {
+  net: number;
+  subnet: number;
+  universe: number;
 };
 
 export type OutputDefinition =
@@ -46,9 +117,24 @@ export type OutputDefinition =
       id: string;
       type: "artnet";
       enabled: boolean;
-      host: string;
-      port: number;
+      host?: string;
+      node?: string;
+      port?: number;
+      universes?: number[];
+      sequenced?: boolean;
+      portAddresses?: Array<{ universe: number; address: ArtnetPortAddress }>;
+    }
+  | {
+      id: string;
+      type: "sacn";
+      enabled: boolean;
+      host?: string;
+      port?: number;
       universes?: number[];
+      universeOffset?: number;
+      priority?: number;
+      sourceName?: string;
+      cid?: string;
     }
   | {
       id: string;
@@ -62,29 +148,79 @@ export type OutputDefinition =
       clientId?: string;
       username?: string;
       password?: string;
+      lightEffectScope?: "program" | "fixture" | "group";
     };
 
+export type PlaybackMergeMode = "htp" | "ltp";
+
+export type PlaybackDefinition = {
+  id: string;
+  priority?: number;
+  mergeMode?: PlaybackMergeMode;
+  fixtureIds?: string[];
+};
+
+export type InputDefinition = {
+  id: string;
+  type: "artnet";
+  enabled: boolean;
+  universes: number[];
+  portAddresses?: Array<{ universe: number; address: ArtnetPortAddress }>;
+  sourceHost?: string;
+  priority?: number;
+  mergeMode?: PlaybackMergeMode;
+  timeoutMs?: number;
+  releaseFadeMs?: number;
+};
+
 export type EnvironmentDefinition = {
   id: string;
   name: string;
   dimensionsMm: { width: number; height: number };
   renderFps?: number;
+  // Crossfade when a playback switches programs, for programs without their
+  // own `crossfadeMs`.
+  programCrossfadeMs?: number;
   fixtures: EnvironmentFixture[];
   outputs: OutputDefinition[];
+  inputs?: InputDefinition[];
+  playbacks?: PlaybackDefinition[];
 };
 
 export type FeatureValue = number | number[];
 
+// CCT features can also be addressed as a color temperature plus intensity
+// (in the feature's value space); see core/cct.ts.
+export type KelvinValue = { kelvin: number; intensity: number };
+
 export type FeatureFrame = {
   fixtureId: string;
   featureId: string;
-  value: FeatureValue;
+  value: FeatureValue | KelvinValue;
+  // Fades the feature to zero and, in tracking programs, stops carrying it
+  // forward. `value` is ignored.
+  release?: boolean;
 };
 
+export type EasingName = "linear" | "ease-in" | "ease-out" | "ease-in-out" | "step" | "perceptual";
+
+export type StepEasing =
+  | EasingName
+  | { type: "cubic-bezier"; points: [number, number, number, number] };
+
+// How the playhead leaves a step: `follow` after its SPM-scaled duration
+// (default), `go` holds until a `next`, `wait` after `waitMs` regardless of
+// SPM.
+export type StepTrigger = "follow" | "go" | "wait";
+
 export type ProgramStep = {
   id: string;
   durationMs: number;
   fadeMs: number;
+  easing?: StepEasing;
+  trigger?: StepTrigger;
+  // For `wait` steps, counted from the start of the step (fade included).
+  waitMs?: number;
   frames: FeatureFrame[];
 };
 
@@ -94,17 +230,93 @@ export type ProgramDefinition = {
   environmentId: string;
   spm: number;
   loop: boolean;
+  // Crossfade into this program when it replaces another on a playback.
+  crossfadeMs?: number;
+  // Features hold their last value through later steps (and across the
+  // loop) until a step sets or releases them.
+  tracking?: boolean;
+  direction?: PlaybackDirection;
   steps: ProgramStep[];
 };
 
+export type EffectGenerator = "sine" | "rainbow" | "sparkle" | "sweep" | "radial";
+
+export type EffectDefinition = {
+  id: string;
+  generator: EffectGenerator;
+  environmentId?: string;
+  playbackId?: string;
+  fixtureIds?: string[];
+  featureId?: string;
+  speed: number;
+  phaseSpread: number;
+  size: number;
+  directionDeg: number;
+  orientationSpread?: number;
+  color?: [number, number, number];
+  level?: number;
+  mergeMode?: PlaybackMergeMode;
+};
+
+// The order steps play in. `random` may repeat a step (never twice in a
+// row); `shuffle` plays every step once per pass in a random order.
+export type PlaybackDirection = "forward" | "reverse" | "ping-pong" | "random" | "shuffle";
+
 export type PlayheadState = {
+  playbackId: string;
+  priority: number;
+  mergeMode: PlaybackMergeMode;
+  fixtureIds?: string[];
   isPlaying: boolean;
   isBlackout: boolean;
+  // Playing and holding on a `go` step until the next `next`.
+  waitingForGo: boolean;
   programId: UUID | null;
   stepIndex: number;
   positionMs: number;
   spm: number;
   loop: boolean;
+  direction: PlaybackDirection;
+};
+
+// Weekdays are 0 (Sunday) to 6 (Saturday); times are in the server's local
+// time zone.
+export type ScheduleTrigger =
+  // Five fields: minute hour day-of-month month weekday.
+  | { type: "cron"; expression: string }
+  | { type: "time"; time: string; weekdays?: number[] }
+  | { type: "sun"; event: "sunrise" | "sunset"; offsetMinutes?: number; weekdays?: number[] };
+
+export type ScheduleAction =
+  | { type: "program"; programId: string; playbackId?: string }
+  | { type: "tempo"; spm: number; playbackId?: string }
+  | { type: "blackout"; enabled: boolean }
+  | { type: "layerAScene"; frames: FeatureFrame[]; fadeMs?: number; replace?: boolean };
+
+export type ScheduleDefinition = {
+  id: string;
+  name: string;
+  enabled?: boolean;
+  trigger: ScheduleTrigger;
+  action: ScheduleAction;
+};
+
+// An entry advances after `repeat` passes of its program (default 1) or,
+// when `durationMs` is set, after that long; looping programs wrap and
+// one-shot programs restart until then. `crossfadeMs` fades into the next
+// entry.
+export type PlaylistEntry = {
+  programId: string;
+  repeat?: number;
+  durationMs?: number;
+  crossfadeMs?: number;
+};
+
+export type PlaylistDefinition = {
+  id: string;
+  name: string;
+  loop?: boolean;
+  entries: PlaylistEntry[];
 };
 
 export type RuntimeConfig = {
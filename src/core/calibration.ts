@@ -0,0 +1,97 @@
+import { validateCctCalibration } from "./cct.js";
+import type {
+  DimmerCurve,
+  FixtureCalibration,
+  FixtureFeature,
+} from "../config/types.js";
+
+const DIMMER_CURVES = ["linear", "square", "s-curve"];
+
+function clamp01(value: number): number {
+  if (!Number.isFinite(value) || value < 0) return 0;
+  if (value > 1) return 1;
+  return value;
+}
+
+function isFinitePositive(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function applyDimmerCurve(t: number, curve: DimmerCurve | undefined): number {
+  if (!curve || curve === "linear") return t;
+  if (curve === "square") return t * t;
+  if (curve === "s-curve") return t * t * (3 - 2 * t);
+  const { table } = curve;
+  const position = t * (table.length - 1);
+  const index = Math.min(table.length - 2, Math.floor(position));
+  const ratio = position - index;
+  return table[index] + (table[index + 1] - table[index]) * ratio;
+}
+
+function channelGamma(calibration: FixtureCalibration, fixtureChannel: number): number {
+  const { gamma } = calibration;
+  if (gamma === undefined) return 1;
+  if (typeof gamma === "number") return gamma;
+  return gamma[String(fixtureChannel)] ?? 1;
+}
+
+export function validateCalibration(calibration: unknown, channels: number): string | null {
+  if (calibration === undefined) return null;
+  if (typeof calibration !== "object" || calibration === null) return "Calibration must be an object";
+  const { dimmerCurve, gamma, whiteBalance, cct } = calibration as Record<string, unknown>;
+
+  if (dimmerCurve !== undefined && !DIMMER_CURVES.includes(dimmerCurve as string)) {
+    const lut = dimmerCurve as { type?: unknown; table?: unknown };
+    if (typeof lut !== "object" || lut === null || lut.type !== "lut" || !Array.isArray(lut.table)) {
+      return "Calibration dimmerCurve must be linear, square, s-curve or a lut";
+    }
+    if (lut.table.length < 2 || !lut.table.every((value) => typeof value === "number" && value >= 0 && value <= 1)) {
+      return "Calibration lut needs at least two levels between 0 and 1";
+    }
+  }
+
+  if (gamma !== undefined) {
+    if (typeof gamma === "object" && gamma !== null) {
+      for (const [channel, value] of Object.entries(gamma)) {
+        const fixtureChannel = Number(channel);
+        if (!Number.isInteger(fixtureChannel) || fixtureChannel < 1 || fixtureChannel > channels) {
+          return `Calibration gamma channel ${channel} is outside 1..${channels}`;
+        }
+        if (!isFinitePositive(value)) return `Calibration gamma for channel ${channel} must be positive`;
+      }
+    } else if (!isFinitePositive(gamma)) {
+      return "Calibration gamma must be a positive number or a map of channel to gamma";
+    }
+  }
+
+  if (whiteBalance !== undefined) {
+    const rows = whiteBalance as unknown[];
+    const valid = Array.isArray(rows)
+      && rows.length === 3
+      && rows.every((row) => Array.isArray(row) && row.length === 3
+        && row.every((value) => typeof value === "number" && Number.isFinite(value)));
+    if (!valid) return "Calibration whiteBalance must be a 3x3 matrix";
+  }
+
+  return validateCctCalibration(cct);
+}
+
+// Works on one feature's channel levels normalized to 0..1 (after range
+// scaling) and returns the corrected levels. White balance only touches the
+// red, green and blue channels of rgb, rgbw and rgba features.
+export function calibrateFeature(
+  calibration: FixtureCalibration,
+  feature: Pick<FixtureFeature, "kind" | "channels">,
+  levels: number[],
+): number[] {
+  let out = levels.map(clamp01);
+  if (calibration.whiteBalance && (feature.kind === "rgb" || feature.kind === "rgbw" || feature.kind === "rgba")) {
+    const [r, g, b] = out;
+    const balanced = calibration.whiteBalance.map((row) => clamp01(row[0] * r + row[1] * g + row[2] * b));
+    out = [...balanced, ...out.slice(3)];
+  }
+  return out.map((level, i) => {
+    const gamma = channelGamma(calibration, feature.channels[i]);
+    return clamp01(applyDimmerCurve(level ** gamma, calibration.dimmerCurve));
+  });
+}
@@ -0,0 +1,131 @@
+import { featureMaxValue } from "./feature-values.js";
+import type {
+  CctCalibration,
+  FeatureFrame,
+  FeatureValue,
+  FixtureCalibration,
+  FixtureFeature,
+  KelvinValue,
+  ProgramDefinition,
+  RuntimeConfig,
+} from "../config/types.js";
+
+export const DEFAULT_WARM_KELVIN = 2700;
+export const DEFAULT_COOL_KELVIN = 6500;
+
+const CCT_MIX_MODES = ["linear", "max-brightness"];
+
+export function isKelvinValue(value: unknown): value is KelvinValue {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && "kelvin" in value;
+}
+
+export function cctCalibration(calibration: FixtureCalibration | undefined): Required<CctCalibration> {
+  return {
+    warmKelvin: calibration?.cct?.warmKelvin ?? DEFAULT_WARM_KELVIN,
+    coolKelvin: calibration?.cct?.coolKelvin ?? DEFAULT_COOL_KELVIN,
+    mix: calibration?.cct?.mix ?? "linear",
+  };
+}
+
+export function validateCctCalibration(cct: unknown): string | null {
+  if (cct === undefined) return null;
+  if (typeof cct !== "object" || cct === null) return "Calibration cct must be an object";
+  const { warmKelvin, coolKelvin, mix } = cct as Record<string, unknown>;
+  if (typeof warmKelvin !== "number" || typeof coolKelvin !== "number"
+    || !Number.isFinite(warmKelvin) || !Number.isFinite(coolKelvin)
+    || warmKelvin <= 0 || warmKelvin >= coolKelvin) {
+    return "Calibration cct requires 0 < warmKelvin < coolKelvin";
+  }
+  if (mix !== undefined && !CCT_MIX_MODES.includes(mix as string)) {
+    return "Calibration cct mix must be linear or max-brightness";
+  }
+  return null;
+}
+
+export function validateKelvinValue(feature: FixtureFeature, value: KelvinValue): string | null {
+  if (feature.kind !== "cct") return "only cct features accept kelvin values";
+  if (typeof value.kelvin !== "number" || !Number.isFinite(value.kelvin) || value.kelvin <= 0) {
+    return "kelvin must be a positive number";
+  }
+  const maxValue = featureMaxValue(feature);
+  if (typeof value.intensity !== "number" || !Number.isFinite(value.intensity)
+    || value.intensity < 0 || value.intensity > maxValue) {
+    return `intensity must be between 0 and ${maxValue}`;
+  }
+  return null;
+}
+
+// Splits a color temperature into warm/cool levels. The cool share is linear
+// in kelvin between the two emitters; kelvin outside them is clamped.
+export function cctFromKelvin(
+  calibration: FixtureCalibration | undefined,
+  kelvin: number,
+  intensity: number,
+): [number, number] {
+  const { warmKelvin, coolKelvin, mix } = cctCalibration(calibration);
+  const safeKelvin = Math.max(warmKelvin, Math.min(coolKelvin, Number.isFinite(kelvin) ? kelvin : warmKelvin));
+  const coolRatio = (safeKelvin - warmKelvin) / (coolKelvin - warmKelvin);
+  const warmRatio = 1 - coolRatio;
+  const scale = mix === "max-brightness" ? 1 / Math.max(warmRatio, coolRatio) : 1;
+  return [intensity * warmRatio * scale, intensity * coolRatio * scale];
+}
+
+export function kelvinFromCct(calibration: FixtureCalibration | undefined, warm: number, cool: number): number {
+  const { warmKelvin, coolKelvin } = cctCalibration(calibration);
+  const total = warm + cool;
+  if (total <= 0) return warmKelvin;
+  return Math.round(warmKelvin + (coolKelvin - warmKelvin) * (cool / total));
+}
+
+// Turns a kelvin value for a CCT feature into its warm/cool pair; plain
+// channel values pass through.
+export function resolveFeatureValue(
+  calibration: FixtureCalibration | undefined,
+  feature: FixtureFeature,
+  value: FeatureValue | KelvinValue,
+): FeatureValue {
+  if (!isKelvinValue(value)) return value;
+  const maxValue = featureMaxValue(feature);
+  const intensity = Math.max(0, Math.min(maxValue, value.intensity));
+  return cctFromKelvin(calibration, value.kelvin, intensity).map((level) => Math.round(level));
+}
+
+// Returns the program with every kelvin frame resolved against its fixture,
+// which is the form the sequencer plays. Programs are stored as authored.
+export function resolveProgramValues(program: ProgramDefinition, config: RuntimeConfig): ProgramDefinition {
+  const environment = config.environments.find((item) => item.id === program.environmentId);
+  if (!environment) return program;
+  const fixtureTypeById = new Map(environment.fixtures.map((fixture) => [fixture.id, fixture.fixtureTypeId]));
+  const fixtureDefs = new Map(config.fixtures.map((fixture) => [fixture.id, fixture]));
+
+  const resolveFrame = (frame: FeatureFrame): FeatureFrame => {
+    if (!isKelvinValue(frame.value)) return frame;
+    const fixtureDef = fixtureDefs.get(fixtureTypeById.get(frame.fixtureId) ?? "");
+    const feature = fixtureDef?.features.find((item) => item.id === frame.featureId);
+    if (!fixtureDef || !feature) return frame;
+    return { ...frame, value: resolveFeatureValue(fixtureDef.calibration, feature, frame.value) };
+  };
+
+  return {
+    ...program,
+    steps: program.steps.map((step) => ({ ...step, frames: step.frames.map(resolveFrame) })),
+  };
+}
+
+// Layer A counterpart of resolveProgramValues for a single value.
+export function resolveLayerAValue(
+  config: RuntimeConfig,
+  fixtureId: string,
+  featureId: string,
+  value: FeatureValue | KelvinValue,
+): FeatureValue | null {
+  if (!isKelvinValue(value)) return value;
+  for (const environment of config.environments) {
+    const fixture = environment.fixtures.find((item) => item.id === fixtureId);
+    if (!fixture) continue;
+    const fixtureDef = config.fixtures.find((item) => item.id === fixture.fixtureTypeId);
+    const feature = fixtureDef?.features.find((item) => item.id === featureId);
+    return fixtureDef && feature ? resolveFeatureValue(fixtureDef.calibration, feature, value) : null;
+  }
+  return null;
+}
@@ -0,0 +1,112 @@
+import { writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import type {
+  EnvironmentDefinition,
+  FixtureDefinition,
+  RuntimeConfig,
+} from "../config/types.js";
+
+// Edits the shared RuntimeConfig in place so every holder of it (routes,
+// render packets, outputs) sees the new patch without a restart.
+export class ConfigStore {
+  private listeners = new Set<() => void>();
+
+  constructor(private readonly config: RuntimeConfig) {}
+
+  listFixtures(): FixtureDefinition[] {
+    return [...this.config.fixtures];
+  }
+
+  getFixture(id: string): FixtureDefinition | undefined {
+    return this.config.fixtures.find((item) => item.id === id);
+  }
+
+  async createFixture(fixture: FixtureDefinition): Promise<FixtureDefinition> {
+    if (this.getFixture(fixture.id)) {
+      throw new Error(`Fixture already exists: ${fixture.id}`);
+    }
+    this.config.fixtures.push(fixture);
+    await this.persistFixtures();
+    return fixture;
+  }
+
+  async updateFixture(id: string, fixture: FixtureDefinition): Promise<FixtureDefinition> {
+    const index = this.config.fixtures.findIndex((item) => item.id === id);
+    if (index < 0) {
+      throw new Error(`Fixture not found: ${id}`);
+    }
+    this.config.fixtures[index] = fixture;
+    await this.persistFixtures();
+    return fixture;
+  }
+
+  async removeFixture(id: string): Promise<void> {
+    const index = this.config.fixtures.findIndex((item) => item.id === id);
+    if (index < 0) {
+      throw new Error(`Fixture not found: ${id}`);
+    }
+    this.config.fixtures.splice(index, 1);
+    await this.persistFixtures();
+  }
+
+  listEnvironments(): EnvironmentDefinition[] {
+    return [...this.config.environments];
+  }
+
+  getEnvironment(id: string): EnvironmentDefinition | undefined {
+    return this.config.environments.find((item) => item.id === id);
+  }
+
+  async createEnvironment(environment: EnvironmentDefinition): Promise<EnvironmentDefinition> {
+    if (this.getEnvironment(environment.id)) {
+      throw new Error(`Environment already exists: ${environment.id}`);
+    }
+    this.config.environments.push(environment);
+    await this.persistEnvironments();
+    return environment;
+  }
+
+  async updateEnvironment(id: string, environment: EnvironmentDefinition): Promise<EnvironmentDefinition> {
+    const index = this.config.environments.findIndex((item) => item.id === id);
+    if (index < 0) {
+      throw new Error(`Environment not found: ${id}`);
+    }
+    this.config.environments[index] = environment;
+    await this.persistEnvironments();
+    return environment;
+  }
+
+  async removeEnvironment(id: string): Promise<void> {
+    const index = this.config.environments.findIndex((item) => item.id === id);
+    if (index < 0) {
+      throw new Error(`Environment not found: ${id}`);
+    }
+    this.config.environments.splice(index, 1);
+    await this.persistEnvironments();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async persistFixtures(): Promise<void> {
+    const fullPath = resolve(process.cwd(), "data/fixtures.json");
+    await writeFile(fullPath, `${JSON.stringify(this.config.fixtures, null, 2)}\n`, "utf8");
+    this.notify();
+  }
+
+  private async persistEnvironments(): Promise<void> {
+    const fullPath = resolve(process.cwd(), "data/environments.json");
+    await writeFile(fullPath, `${JSON.stringify(this.config.environments, null, 2)}\n`, "utf8");
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import type { EasingName, StepEasing } from "../config/types.js";
+
+const EASING_NAMES: EasingName[] = ["linear", "ease-in", "ease-out", "ease-in-out", "step", "perceptual"];
+const PERCEPTUAL_GAMMA = 2.2;
+
+function clamp01(value: number): number {
+  if (value < 0) return 0;
+  if (value > 1) return 1;
+  return value;
+}
+
+function cubicBezierAt(t: number, p1: number, p2: number): number {
+  const inverse = 1 - t;
+  return 3 * inverse * inverse * t * p1 + 3 * inverse * t * t * p2 + t * t * t;
+}
+
+// Same curve semantics as CSS cubic-bezier(): find t for the given x by
+// bisection, then return y(t).
+function cubicBezier(ratio: number, [x1, y1, x2, y2]: [number, number, number, number]): number {
+  let low = 0;
+  let high = 1;
+  let t = ratio;
+  for (let i = 0; i < 24; i += 1) {
+    const x = cubicBezierAt(t, x1, x2);
+    if (Math.abs(x - ratio) < 1e-5) break;
+    if (x < ratio) low = t;
+    else high = t;
+    t = (low + high) / 2;
+  }
+  return cubicBezierAt(t, y1, y2);
+}
+
+export function isValidEasing(value: unknown): value is StepEasing {
+  if (typeof value === "string") return EASING_NAMES.includes(value as EasingName);
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as { type?: unknown; points?: unknown };
+  if (candidate.type !== "cubic-bezier" || !Array.isArray(candidate.points)) return false;
+  if (candidate.points.length !== 4) return false;
+  if (!candidate.points.every((point) => typeof point === "number" && Number.isFinite(point))) return false;
+  const [x1, , x2] = candidate.points as number[];
+  return x1 >= 0 && x1 <= 1 && x2 >= 0 && x2 <= 1;
+}
+
+export function easeRatio(ratio: number, easing: StepEasing | undefined): number {
+  const t = clamp01(ratio);
+  if (!easing || easing === "linear" || easing === "perceptual") return t;
+  switch (easing) {
+    case "ease-in":
+      return t * t * t;
+    case "ease-out":
+      return 1 - (1 - t) ** 3;
+    case "ease-in-out":
+      return t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2;
+    case "step":
+      return t >= 1 ? 1 : 0;
+    default:
+      return cubicBezier(t, easing.points);
+  }
+}
+
+// Perceptual easing interpolates in gamma space so low levels fade as evenly
+// as high ones; every other curve only reshapes the ratio.
+export function interpolateEased(
+  fromValue: number,
+  toValue: number,
+  ratio: number,
+  easing: StepEasing | undefined,
+): number {
+  if (easing === "perceptual") {
+    const t = clamp01(ratio);
+    const from = Math.max(0, fromValue) ** (1 / PERCEPTUAL_GAMMA);
+    const to = Math.max(0, toValue) ** (1 / PERCEPTUAL_GAMMA);
+    return (from + (to - from) * t) ** PERCEPTUAL_GAMMA;
+  }
+  return fromValue + (toValue - fromValue) * easeRatio(ratio, easing);
+}
@@ -0,0 +1,192 @@
+import type {
+  EffectDefinition,
+  EffectGenerator,
+  EnvironmentDefinition,
+  FeatureKind,
+  FixtureDefinition,
+} from "../config/types.js";
+import { isColorKind } from "./feature-kinds.js";
+import { featureMaxValue } from "./feature-values.js";
+
+const GENERATORS: EffectGenerator[] = ["sine", "rainbow", "sparkle", "sweep", "radial"];
+
+export type EffectTarget = {
+  fixtureId: string;
+  featureId: string;
+  kind: FeatureKind;
+  channelCount: number;
+  // 255, or 65535 for 16-bit features.
+  maxValue: number;
+  // Position along the effect direction across the target group, 0..1.
+  position: number;
+  // Distance from the target group's center, 0..1.
+  radius: number;
+  // Extra phase (in cycles) from the fixture's orientation.
+  orientationPhase: number;
+  seed: number;
+};
+
+function clamp01(value: number): number {
+  if (value < 0) return 0;
+  if (value > 1) return 1;
+  return value;
+}
+
+function fract(value: number): number {
+  return value - Math.floor(value);
+}
+
+function finiteOr(value: unknown, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+// Deterministic per-fixture noise so repeated frame builds agree.
+function hash01(seed: number, cycle: number): number {
+  const raw = Math.sin(seed * 12.9898 + cycle * 78.233) * 43758.5453;
+  return fract(raw);
+}
+
+function hsvToRgb(hue: number): [number, number, number] {
+  const h = fract(hue) * 6;
+  const x = 1 - Math.abs((h % 2) - 1);
+  if (h < 1) return [1, x, 0];
+  if (h < 2) return [x, 1, 0];
+  if (h < 3) return [0, 1, x];
+  if (h < 4) return [0, x, 1];
+  if (h < 5) return [x, 0, 1];
+  return [1, 0, x];
+}
+
+function pickFeature(definition: FixtureDefinition, featureId: string | undefined) {
+  if (featureId) return definition.features.find((feature) => feature.id === featureId);
+  return definition.features.find((feature) => isColorKind(feature.kind))
+    ?? definition.features.find((feature) => feature.kind === "scalar")
+    ?? definition.features.find((feature) => feature.kind === "cct");
+}
+
+export function normalizeEffect(input: unknown): EffectDefinition | null {
+  if (typeof input !== "object" || input === null) return null;
+  const raw = input as Partial<EffectDefinition>;
+  if (typeof raw.id !== "string" || raw.id.length === 0) return null;
+  if (!raw.generator || !GENERATORS.includes(raw.generator)) return null;
+  const color = Array.isArray(raw.color) && raw.color.length === 3
+    ? raw.color.map((value) => Math.max(0, Math.min(255, Math.round(finiteOr(value, 0))))) as [number, number, number]
+    : undefined;
+  return {
+    id: raw.id,
+    generator: raw.generator,
+    environmentId: typeof raw.environmentId === "string" ? raw.environmentId : undefined,
+    playbackId: typeof raw.playbackId === "string" ? raw.playbackId : undefined,
+    fixtureIds: Array.isArray(raw.fixtureIds) ? raw.fixtureIds.map(String) : undefined,
+    featureId: typeof raw.featureId === "string" ? raw.featureId : undefined,
+    speed: Math.max(0, finiteOr(raw.speed, 1)),
+    phaseSpread: finiteOr(raw.phaseSpread, 1),
+    size: clamp01(finiteOr(raw.size, 0.5)),
+    directionDeg: finiteOr(raw.directionDeg, 0),
+    orientationSpread: finiteOr(raw.orientationSpread, 0),
+    color,
+    level: Math.max(0, Math.min(255, finiteOr(raw.level, 255))),
+    mergeMode: raw.mergeMode === "ltp" ? "ltp" : "htp",
+  };
+}
+
+export function resolveEffectTargets(
+  effect: EffectDefinition,
+  environment: EnvironmentDefinition,
+  fixtures: FixtureDefinition[],
+): EffectTarget[] {
+  const fixtureDefs = new Map(fixtures.map((fixture) => [fixture.id, fixture]));
+  const wanted = effect.fixtureIds ? new Set(effect.fixtureIds) : null;
+  const angle = (effect.directionDeg * Math.PI) / 180;
+
+  const candidates = environment.fixtures.flatMap((fixture, index) => {
+    if (wanted && !wanted.has(fixture.id)) return [];
+    const definition = fixtureDefs.get(fixture.fixtureTypeId);
+    const feature = definition ? pickFeature(definition, effect.featureId) : undefined;
+    if (!feature) return [];
+    const projected = fixture.position2d.x * Math.cos(angle) + fixture.position2d.y * Math.sin(angle);
+    return [{ fixture, feature, projected, index }];
+  });
+  if (candidates.length === 0) return [];
+
+  const minProjected = Math.min(...candidates.map((item) => item.projected));
+  const maxProjected = Math.max(...candidates.map((item) => item.projected));
+  const span = maxProjected - minProjected;
+  const centerX = candidates.reduce((sum, item) => sum + item.fixture.position2d.x, 0) / candidates.length;
+  const centerY = candidates.reduce((sum, item) => sum + item.fixture.position2d.y, 0) / candidates.length;
+  const distances = candidates.map((item) =>
+    Math.hypot(item.fixture.position2d.x - centerX, item.fixture.position2d.y - centerY),
+  );
+  const maxDistance = Math.max(...distances);
+
+  return candidates.map((item, i) => ({
+    fixtureId: item.fixture.id,
+    featureId: item.feature.id,
+    kind: item.feature.kind,
+    channelCount: item.feature.channels.length,
+    maxValue: featureMaxValue(item.feature),
+    position: span > 0 ? (item.projected - minProjected) / span : 0,
+    radius: maxDistance > 0 ? distances[i] / maxDistance : 0,
+    orientationPhase: ((item.fixture.orientationDeg ?? 0) / 360) * (effect.orientationSpread ?? 0),
+    seed: item.index + 1,
+  }));
+}
+
+function intensityAt(effect: EffectDefinition, target: EffectTarget, phase: number): number {
+  const localPhase = phase - target.orientationPhase;
+  switch (effect.generator) {
+    case "sine": {
+      const wave = 0.5 + 0.5 * Math.sin(2 * Math.PI * (localPhase - target.position * effect.phaseSpread));
+      return 1 - effect.size * (1 - wave);
+    }
+    case "rainbow":
+      return 1;
+    case "sparkle": {
+      const offset = hash01(target.seed, 0) * effect.phaseSpread;
+      const cyclePhase = localPhase + offset;
+      const cycle = Math.floor(cyclePhase);
+      if (hash01(target.seed, cycle + 1) >= effect.size) return 0;
+      return (1 - fract(cyclePhase)) ** 2;
+    }
+    case "sweep": {
+      const cyclePhase = fract(localPhase);
+      const head = cyclePhase < 0.5 ? cyclePhase * 2 : 2 - cyclePhase * 2;
+      const width = Math.max(0.01, effect.size);
+      return clamp01(1 - Math.abs(target.position - head) / width);
+    }
+    case "radial": {
+      const ring = fract(localPhase - target.radius * effect.phaseSpread);
+      const width = Math.max(0.01, effect.size);
+      return ring < width ? 1 - ring / width : 0;
+    }
+  }
+}
+
+// Renders one effect for all of its targets at the given phase (in cycles).
+export function renderEffect(
+  effect: EffectDefinition,
+  targets: EffectTarget[],
+  phase: number,
+): Record<string, number[]> {
+  const level = (effect.level ?? 255) / 255;
+  const color = effect.color ?? [255, 255, 255];
+  const values: Record<string, number[]> = {};
+
+  for (const target of targets) {
+    const intensity = intensityAt(effect, target, phase) * level;
+    const scale = target.maxValue / 255;
+    let out: number[];
+    if (isColorKind(target.kind)) {
+      const base = effect.generator === "rainbow"
+        ? hsvToRgb(phase - target.orientationPhase - target.position * effect.phaseSpread).map((value) => value * 255)
+        : color;
+      out = base.map((value) => Math.round(value * intensity * scale));
+    } else {
+      out = Array.from({ length: target.channelCount }, () => Math.round(target.maxValue * intensity));
+    }
+    values[`${target.fixtureId}:${target.featureId}`] = out;
+  }
+
+  return values;
+}
@@ -0,0 +1,148 @@
+import type { FeatureKind, FixtureFeature } from "../config/types.js";
+
+export const FEATURE_KINDS: FeatureKind[] = [
+  "scalar",
+  "rgb",
+  "cct",
+  "rgbw",
+  "rgba",
+  "hsi",
+  "strobe",
+  "pan-tilt",
+  "color-wheel",
+];
+
+// Output channels each kind needs; scalar features take any number.
+const KIND_CHANNELS: Record<Exclude<FeatureKind, "scalar">, number> = {
+  rgb: 3,
+  cct: 2,
+  rgbw: 4,
+  rgba: 4,
+  hsi: 3,
+  strobe: 1,
+  "pan-tilt": 2,
+  "color-wheel": 1,
+};
+
+// Share of green in an amber LED relative to its red.
+const AMBER_GREEN_RATIO = 0.75;
+
+type FeatureShape = Pick<FixtureFeature, "kind" | "channels">;
+
+export function kindChannelCount(kind: FeatureKind): number | null {
+  return kind === "scalar" ? null : KIND_CHANNELS[kind];
+}
+
+// Kinds that programs, effects and Home Assistant drive with RGB values.
+export function isColorKind(kind: FeatureKind): boolean {
+  return kind === "rgb" || kind === "rgbw" || kind === "rgba" || kind === "hsi";
+}
+
+// Kinds whose values are levels, so range scaling and calibration apply.
+export function isLevelKind(kind: FeatureKind): boolean {
+  return kind !== "hsi" && kind !== "strobe" && kind !== "pan-tilt" && kind !== "color-wheel";
+}
+
+// How many values a frame may carry for the feature: RGB for the derived
+// color kinds (rgbw and rgba also accept all four channels explicitly).
+export function acceptedValueCounts(feature: FeatureShape): number[] {
+  if (feature.kind === "rgbw" || feature.kind === "rgba") return [3, 4];
+  if (feature.kind === "hsi") return [3];
+  return [feature.channels.length];
+}
+
+function rgbToHsi([r, g, b]: number[], maxValue: number): number[] {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  let hue = 0;
+  if (delta > 0) {
+    if (max === r) hue = ((g - b) / delta + 6) % 6;
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+  }
+  return [(hue / 6) * maxValue, max > 0 ? (delta / max) * maxValue : 0, max];
+}
+
+function hsiToRgb([h, s, i]: number[], maxValue: number): number[] {
+  const hue = (h / maxValue) * 6;
+  const chroma = i * (s / maxValue);
+  const x = chroma * (1 - Math.abs((hue % 2) - 1));
+  const m = i - chroma;
+  const sector = Math.min(5, Math.floor(hue));
+  const [r, g, b] = [
+    [chroma, x, 0],
+    [x, chroma, 0],
+    [0, chroma, x],
+    [0, x, chroma],
+    [x, 0, chroma],
+    [chroma, 0, x],
+  ][sector];
+  return [r + m, g + m, b + m];
+}
+
+// Turns frame values into one value per output channel, in the feature's
+// value space. rgbw moves the common part of RGB to white; rgba keeps that
+// in RGB and moves the remaining red/green overlap to amber.
+export function expandFeatureValues(feature: FeatureShape, values: number[], maxValue: number): number[] {
+  const at = (i: number) => values[i] ?? values[values.length - 1] ?? 0;
+  const [r, g, b] = [at(0), at(1), at(2)];
+  switch (feature.kind) {
+    case "rgbw": {
+      if (values.length >= 4) return values.slice(0, 4);
+      const white = Math.min(r, g, b);
+      return [r - white, g - white, b - white, white];
+    }
+    case "rgba": {
+      if (values.length >= 4) return values.slice(0, 4);
+      const white = Math.min(r, g, b);
+      const amber = Math.max(0, Math.min(r - white, (g - white) / AMBER_GREEN_RATIO));
+      return [r - amber, g - amber * AMBER_GREEN_RATIO, b, amber];
+    }
+    case "hsi":
+      return rgbToHsi([r, g, b], maxValue);
+    default:
+      return feature.channels.map((_, i) => at(i));
+  }
+}
+
+// Inverse of expandFeatureValues for reading DMX back. rgbw and rgba stay
+// as four explicit values; hsi is turned back into RGB.
+export function collapseFeatureValues(feature: FeatureShape, values: number[], maxValue: number): number[] {
+  return feature.kind === "hsi" ? hsiToRgb(values, maxValue) : values;
+}
+
+// Strobe and color wheel values are not levels: strobe 0 is off and
+// 1..255 sweeps the rate range, a color wheel value is a slot index.
+// Returns the DMX value, or null for every other kind.
+export function directDmxValue(feature: FixtureFeature, value: number): number | null {
+  if (feature.kind === "strobe") {
+    if (value <= 0) return feature.strobe?.offValue ?? 0;
+    const min = feature.range?.min ?? 0;
+    const max = feature.range?.max ?? 255;
+    return min + ((Math.min(255, value) - 1) / 254) * (max - min);
+  }
+  if (feature.kind === "color-wheel") {
+    const slots = feature.slots ?? [];
+    if (slots.length === 0) return Math.max(0, Math.min(255, value));
+    const slot = slots[Math.max(0, Math.min(slots.length - 1, Math.round(value)))];
+    return (slot.min + slot.max) / 2;
+  }
+  return null;
+}
+
+export function readDirectDmxValue(feature: FixtureFeature, dmx: number): number | null {
+  if (feature.kind === "strobe") {
+    const min = feature.range?.min ?? 0;
+    const max = feature.range?.max ?? 255;
+    if (dmx === (feature.strobe?.offValue ?? 0) || dmx < min || dmx > max) return 0;
+    return max > min ? 1 + ((dmx - min) / (max - min)) * 254 : 255;
+  }
+  if (feature.kind === "color-wheel") {
+    const slots = feature.slots ?? [];
+    if (slots.length === 0) return dmx;
+    const index = slots.findIndex((slot) => dmx >= slot.min && dmx <= slot.max);
+    return Math.max(0, index);
+  }
+  return null;
+}
@@ -0,0 +1,13 @@
+import type { FixtureFeature } from "../config/types.js";
+
+export const MAX_8BIT_VALUE = 255;
+export const MAX_16BIT_VALUE = 65535;
+
+export function isFineFeature(feature: Pick<FixtureFeature, "fineChannels">): boolean {
+  return Array.isArray(feature.fineChannels) && feature.fineChannels.length > 0;
+}
+
+// The top of a feature's value space: 65535 for 16-bit features, else 255.
+export function featureMaxValue(feature: Pick<FixtureFeature, "fineChannels">): number {
+  return isFineFeature(feature) ? MAX_16BIT_VALUE : MAX_8BIT_VALUE;
+}
@@ -0,0 +1,148 @@
+import type {
+  EnvironmentDefinition,
+  FixtureDefinition,
+} from "../config/types.js";
+
+const UNIVERSE_SIZE = 512;
+
+export type PatchIssue =
+  | {
+    kind: "overlap";
+    universe: number;
+    fixtureIds: [string, string];
+    start: number;
+    end: number;
+  }
+  | {
+    kind: "overflow";
+    universe: number;
+    fixtureId: string;
+    start: number;
+    end: number;
+  }
+  | {
+    kind: "unknownFixtureType";
+    fixtureId: string;
+    fixtureTypeId: string;
+  };
+
+export type PatchFootprint = {
+  fixtureId: string;
+  name: string;
+  start: number;
+  end: number;
+};
+
+export type PatchRange = { start: number; end: number };
+
+export type UniversePatch = {
+  universe: number;
+  footprints: PatchFootprint[];
+  usedChannels: number;
+  gaps: PatchRange[];
+};
+
+export type PatchReport = {
+  environmentId: string;
+  universes: UniversePatch[];
+  issues: PatchIssue[];
+};
+
+// Gaps are the unused ranges of 1..512, including the space after the last
+// fixture, so the report doubles as a "where can I patch" list.
+function findGaps(footprints: PatchFootprint[]): PatchRange[] {
+  const used = new Uint8Array(UNIVERSE_SIZE);
+  for (const footprint of footprints) {
+    for (let address = footprint.start; address <= Math.min(footprint.end, UNIVERSE_SIZE); address += 1) {
+      used[address - 1] = 1;
+    }
+  }
+
+  const gaps: PatchRange[] = [];
+  let gapStart: number | null = null;
+  for (let address = 1; address <= UNIVERSE_SIZE; address += 1) {
+    if (!used[address - 1]) {
+      gapStart ??= address;
+      continue;
+    }
+    if (gapStart !== null) {
+      gaps.push({ start: gapStart, end: address - 1 });
+      gapStart = null;
+    }
+  }
+  if (gapStart !== null) gaps.push({ start: gapStart, end: UNIVERSE_SIZE });
+  return gaps;
+}
+
+// Checks an environment's patch the way buildRenderPacket will see it:
+// fixtures with an unknown type are skipped there, channels past 512 are
+// dropped, and overlapping fixtures overwrite each other.
+export function analyzePatch(
+  environment: EnvironmentDefinition,
+  fixtures: FixtureDefinition[],
+): PatchReport {
+  const fixtureDefs = new Map(fixtures.map((fixture) => [fixture.id, fixture]));
+  const issues: PatchIssue[] = [];
+  const footprintsByUniverse = new Map<number, PatchFootprint[]>();
+
+  for (const fixture of environment.fixtures) {
+    const fixtureDef = fixtureDefs.get(fixture.fixtureTypeId);
+    if (!fixtureDef) {
+      issues.push({ kind: "unknownFixtureType", fixtureId: fixture.id, fixtureTypeId: fixture.fixtureTypeId });
+      continue;
+    }
+
+    const footprint: PatchFootprint = {
+      fixtureId: fixture.id,
+      name: fixture.name,
+      start: fixture.address,
+      end: fixture.address + fixtureDef.channels - 1,
+    };
+    if (footprint.end > UNIVERSE_SIZE) {
+      issues.push({
+        kind: "overflow",
+        universe: fixture.universe,
+        fixtureId: fixture.id,
+        start: footprint.start,
+        end: footprint.end,
+      });
+    }
+    const footprints = footprintsByUniverse.get(fixture.universe) ?? [];
+    footprints.push(footprint);
+    footprintsByUniverse.set(fixture.universe, footprints);
+  }
+
+  const universes: UniversePatch[] = [];
+  for (const [universe, footprints] of [...footprintsByUniverse.entries()].sort(([a], [b]) => a - b)) {
+    footprints.sort((a, b) => a.start - b.start || a.fixtureId.localeCompare(b.fixtureId));
+
+    for (let i = 0; i < footprints.length; i += 1) {
+      for (let j = i + 1; j < footprints.length && footprints[j].start <= footprints[i].end; j += 1) {
+        issues.push({
+          kind: "overlap",
+          universe,
+          fixtureIds: [footprints[i].fixtureId, footprints[j].fixtureId],
+          start: footprints[j].start,
+          end: Math.min(footprints[i].end, footprints[j].end),
+        });
+      }
+    }
+
+    const gaps = findGaps(footprints);
+    const freeChannels = gaps.reduce((sum, gap) => sum + gap.end - gap.start + 1, 0);
+    universes.push({ universe, footprints, usedChannels: UNIVERSE_SIZE - freeChannels, gaps });
+  }
+
+  return { environmentId: environment.id, universes, issues };
+}
+
+export function formatPatchIssue(issue: PatchIssue): string {
+  switch (issue.kind) {
+    case "overlap":
+      return `${issue.fixtureIds[0]} and ${issue.fixtureIds[1]} overlap on universe ${issue.universe} at ${issue.start}-${issue.end}`;
+    case "overflow":
+      return `${issue.fixtureId} runs past channel 512 on universe ${issue.universe} (${issue.start}-${issue.end})`;
+    case "unknownFixtureType":
+      return `${issue.fixtureId} references unknown fixture type ${issue.fixtureTypeId}`;
+  }
+}
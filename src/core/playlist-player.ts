@@ -0,0 +1,177 @@
+import { DEFAULT_PLAYBACK_ID } from "./sequencer.js";
+import type { PlaylistDefinition } from "../config/types.js";
+import type { PlaylistStore } from "./playlist-store.js";
+import type { ProgramEndEvent } from "./sequencer.js";
+
+export type PlaylistState = {
+  playlistId: string;
+  playbackId: string;
+  entryIndex: number;
+  programId: string;
+  // Finished passes of the current entry's program.
+  passes: number;
+};
+
+type ActivePlaylist = PlaylistState & {
+  playlist: PlaylistDefinition;
+  timer: NodeJS.Timeout | null;
+};
+
+// Loads a program on a playback and plays it from step 0, crossfading when
+// `crossfadeMs` is given. Returns false when the program does not exist.
+export type StartProgram = (programId: string, playbackId: string, crossfadeMs?: number) => boolean;
+
+// Runs at most one playlist per playback and advances it when the sequencer
+// reports that the current program ended. Stopping a playlist leaves the
+// current program playing.
+export class PlaylistPlayer {
+  private active = new Map<string, ActivePlaylist>();
+  private listeners = new Set<() => void>();
+  private debug = process.env.CHASER_DEBUG === "1";
+
+  constructor(
+    private readonly store: PlaylistStore,
+    private readonly startProgram: StartProgram,
+  ) {}
+
+  getStates(): PlaylistState[] {
+    return [...this.active.values()].map(({ playlistId, playbackId, entryIndex, programId, passes }) => ({
+      playlistId,
+      playbackId,
+      entryIndex,
+      programId,
+      passes,
+    }));
+  }
+
+  getPlaylistId(playbackId = DEFAULT_PLAYBACK_ID): string | null {
+    return this.active.get(playbackId)?.playlistId ?? null;
+  }
+
+  start(playlistId: string, playbackId = DEFAULT_PLAYBACK_ID): boolean {
+    const playlist = this.store.get(playlistId);
+    if (!playlist) return false;
+    this.clear(playbackId);
+    const started = this.enter(playlist, 0, playbackId);
+    this.notify();
+    return started;
+  }
+
+  stop(playbackId = DEFAULT_PLAYBACK_ID): void {
+    if (!this.clear(playbackId)) return;
+    this.notify();
+  }
+
+  // Skips to the next entry with its crossfade.
+  next(playbackId = DEFAULT_PLAYBACK_ID): void {
+    const active = this.active.get(playbackId);
+    if (!active) return;
+    this.advance(active);
+  }
+
+  // Picks up edits: a removed playlist stops, an edited one continues from
+  // the same entry index on the new definition.
+  reload(): void {
+    for (const active of [...this.active.values()]) {
+      const playlist = this.store.get(active.playlistId);
+      if (!playlist) {
+        this.clear(active.playbackId);
+        continue;
+      }
+      active.playlist = playlist;
+    }
+    this.notify();
+  }
+
+  handleProgramEnd(event: ProgramEndEvent): void {
+    const active = this.active.get(event.playbackId);
+    if (!active || active.programId !== event.programId) return;
+    const entry = active.playlist.entries[active.entryIndex];
+    if (!entry) return;
+    active.passes += 1;
+
+    const done = entry.durationMs === undefined && active.passes >= (entry.repeat ?? 1);
+    if (done) {
+      this.advance(active);
+      return;
+    }
+    // Looping programs have already wrapped; one-shots play again.
+    if (event.stopped) this.startProgram(entry.programId, event.playbackId);
+    this.notify();
+  }
+
+  close(): void {
+    for (const playbackId of [...this.active.keys()]) this.clear(playbackId);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private advance(active: ActivePlaylist): void {
+    const { playlist, playbackId } = active;
+    const crossfadeMs = playlist.entries[active.entryIndex]?.crossfadeMs;
+    let nextIndex = active.entryIndex + 1;
+    if (nextIndex >= playlist.entries.length) {
+      if (!playlist.loop) {
+        // The last program keeps running (or has already stopped).
+        this.clear(playbackId);
+        this.notify();
+        return;
+      }
+      nextIndex = 0;
+    }
+    this.clear(playbackId);
+    this.enter(playlist, nextIndex, playbackId, crossfadeMs);
+    this.notify();
+  }
+
+  // Entries whose program has since been deleted are skipped.
+  private enter(playlist: PlaylistDefinition, index: number, playbackId: string, crossfadeMs?: number): boolean {
+    for (let offset = 0; offset < playlist.entries.length; offset += 1) {
+      const entryIndex = (index + offset) % playlist.entries.length;
+      if (!playlist.loop && entryIndex < index) break;
+      const entry = playlist.entries[entryIndex];
+      if (!this.startProgram(entry.programId, playbackId, crossfadeMs)) continue;
+
+      const active: ActivePlaylist = {
+        playlistId: playlist.id,
+        playbackId,
+        entryIndex,
+        programId: entry.programId,
+        passes: 0,
+        playlist,
+        timer: null,
+      };
+      if (entry.durationMs !== undefined) {
+        active.timer = setTimeout(() => {
+          active.timer = null;
+          this.advance(active);
+        }, entry.durationMs);
+      }
+      this.active.set(playbackId, active);
+      if (this.debug) {
+        console.info("[playlist-debug] entry", { playlistId: playlist.id, playbackId, entryIndex, crossfadeMs });
+      }
+      return true;
+    }
+    return false;
+  }
+
+  private clear(playbackId: string): boolean {
+    const active = this.active.get(playbackId);
+    if (!active) return false;
+    if (active.timer) clearTimeout(active.timer);
+    this.active.delete(playbackId);
+    return true;
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import type { PlaylistDefinition } from "../config/types.js";
+
+export class PlaylistStore {
+  private playlists: PlaylistDefinition[];
+  private listeners = new Set<() => void>();
+
+  constructor(playlists: PlaylistDefinition[]) {
+    this.playlists = [...playlists];
+  }
+
+  list(): PlaylistDefinition[] {
+    return [...this.playlists];
+  }
+
+  get(id: string): PlaylistDefinition | undefined {
+    return this.playlists.find((item) => item.id === id);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async create(playlist: PlaylistDefinition): Promise<PlaylistDefinition> {
+    if (this.get(playlist.id)) {
+      throw new Error(`Playlist already exists: ${playlist.id}`);
+    }
+    this.playlists.push(playlist);
+    await this.persist();
+    return playlist;
+  }
+
+  async update(id: string, playlist: PlaylistDefinition): Promise<PlaylistDefinition> {
+    const index = this.playlists.findIndex((item) => item.id === id);
+    if (index < 0) {
+      throw new Error(`Playlist not found: ${id}`);
+    }
+    this.playlists[index] = playlist;
+    await this.persist();
+    return playlist;
+  }
+
+  async remove(id: string): Promise<void> {
+    const before = this.playlists.length;
+    this.playlists = this.playlists.filter((item) => item.id !== id);
+    if (this.playlists.length === before) {
+      throw new Error(`Playlist not found: ${id}`);
+    }
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    const fullPath = resolve(process.cwd(), "data/playlists.json");
+    await writeFile(fullPath, `${JSON.stringify(this.playlists, null, 2)}\n`, "utf8");
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -1,6 +1,16 @@
+import { calibrateFeature } from "./calibration.js";
+import {
+  collapseFeatureValues,
+  directDmxValue,
+  expandFeatureValues,
+  isLevelKind,
+  readDirectDmxValue,
+} from "./feature-kinds.js";
+import { featureMaxValue } from "./feature-values.js";
 import type {
   EnvironmentDefinition,
   FixtureDefinition,
+  FixtureFeature,
   RuntimeConfig,
 } from "../config/types.js";
 import type { SequencerFrame } from "./sequencer.js";
@@ -19,6 +29,19 @@ function clampDmx(value: number): number {
   return Math.round(value);
 }
 
+// `range` is always given in DMX bytes; on 16-bit features it applies to the
+// coarse byte, i.e. to the value scaled by 257.
+function featureRange(featureDef: FixtureFeature): { min: number; max: number; scaleFromFull: boolean } {
+  const rangeMin = featureDef.range?.min ?? 0;
+  const rangeMax = featureDef.range?.max ?? 255;
+  const scale = featureMaxValue(featureDef) / 255;
+  return {
+    min: rangeMin * scale,
+    max: rangeMax * scale,
+    scaleFromFull: rangeMin === 0 && rangeMax > 0 && rangeMax < 255,
+  };
+}
+
 export function buildRenderPacket(
   frame: SequencerFrame,
   config: RuntimeConfig,
@@ -78,19 +101,35 @@ export function buildRenderPacket(
     const universe = fixture.universe;
     const buffer = dmxByUniverse.get(universe) ?? new Uint8Array(512);
 
+    const maxValue = featureMaxValue(featureDef);
+    const { min, max, scaleFromFull } = featureRange(featureDef);
+    const expanded = expandFeatureValues(featureDef, values, maxValue);
+    const scaled = expanded.map((expandedValue) => {
+      const direct = directDmxValue(featureDef, expandedValue);
+      if (direct !== null) return direct;
+      const normalized = Math.max(0, Math.min(maxValue, expandedValue));
+      return scaleFromFull ? (normalized / maxValue) * max : Math.max(min, Math.min(max, normalized));
+    });
+    // Calibration works on levels relative to the top of the range.
+    const output = fixtureDef.calibration && isLevelKind(featureDef.kind) && max > 0
+      ? calibrateFeature(fixtureDef.calibration, featureDef, scaled.map((value) => value / max))
+        .map((level) => Math.max(min, level * max))
+      : scaled;
+
     for (let i = 0; i < featureDef.channels.length; i += 1) {
       const fixtureChannel = featureDef.channels[i];
-      const rawValue = values[i] ?? values[0] ?? 0;
-      const normalized = Math.max(0, Math.min(255, rawValue));
-      const min = featureDef.range?.min ?? 0;
-      const max = featureDef.range?.max ?? 255;
-      const shouldScaleFrom255 = min === 0 && max > 0 && max < 255;
-      const value = shouldScaleFrom255
-        ? (normalized / 255) * max
-        : Math.max(min, Math.min(max, normalized));
+      const rawValue = expanded[i] ?? 0;
+      const value = Math.round(output[i] ?? 0);
       const dmxAddress = fixture.address + fixtureChannel - 1;
       if (dmxAddress < 1 || dmxAddress > 512) continue;
-      buffer[dmxAddress - 1] = clampDmx(value);
+      const fineChannel = featureDef.fineChannels?.[i];
+      if (fineChannel !== undefined) {
+        buffer[dmxAddress - 1] = value >> 8;
+        const fineAddress = fixture.address + fineChannel - 1;
+        if (fineAddress >= 1 && fineAddress <= 512) buffer[fineAddress - 1] = value & 0xff;
+      } else {
+        buffer[dmxAddress - 1] = clampDmx(value);
+      }
       if (debug) {
         console.info("[render-debug] write", {
           key,
@@ -101,10 +140,10 @@ export function buildRenderPacket(
           fixtureChannel,
           dmxAddress,
           rawValue,
-          normalized,
+          scaled: scaled[i],
           min,
           max,
-          output: clampDmx(value),
+          output: value,
         });
       }
     }
@@ -130,6 +169,49 @@ export function buildRenderPacket(
   return out;
 }
 
+// Inverse of buildRenderPacket for one universe: reads every patched feature
+// back out of a DMX buffer and undoes the range scaling, so external sources
+// land in the same value space as programs and Layer A. Calibration is not
+// undone: an input is taken as requested levels and calibrated on output.
+export function readFeatureValues(
+  environment: EnvironmentDefinition,
+  fixtures: FixtureDefinition[],
+  universe: number,
+  dmx: Uint8Array,
+): Record<string, number[]> {
+  const fixtureDefs = new Map(fixtures.map((fixture) => [fixture.id, fixture]));
+  const values: Record<string, number[]> = {};
+
+  for (const fixture of environment.fixtures) {
+    if (fixture.universe !== universe) continue;
+    const fixtureDef = fixtureDefs.get(fixture.fixtureTypeId);
+    if (!fixtureDef) continue;
+
+    for (const featureDef of fixtureDef.features) {
+      const maxValue = featureMaxValue(featureDef);
+      const { max, scaleFromFull } = featureRange(featureDef);
+      const readSlot = (fixtureChannel: number): number => {
+        const dmxAddress = fixture.address + fixtureChannel - 1;
+        return dmxAddress >= 1 && dmxAddress <= dmx.length ? dmx[dmxAddress - 1] : 0;
+      };
+      const out: number[] = [];
+      featureDef.channels.forEach((fixtureChannel, i) => {
+        const fineChannel = featureDef.fineChannels?.[i];
+        const raw = fineChannel !== undefined
+          ? (readSlot(fixtureChannel) << 8) | readSlot(fineChannel)
+          : readSlot(fixtureChannel);
+        const direct = readDirectDmxValue(featureDef, raw);
+        const value = direct ?? (scaleFromFull ? (Math.min(raw, max) / max) * maxValue : raw);
+        out.push(Math.max(0, Math.min(maxValue, value)));
+      });
+      values[`${fixture.id}:${featureDef.id}`] = collapseFeatureValues(featureDef, out, maxValue)
+        .map((value) => Math.round(value));
+    }
+  }
+
+  return values;
+}
+
 export function fixtureDefinitionByType(
   fixtures: FixtureDefinition[],
   fixtureTypeId: string,
@@ -9,4 +9,10 @@ export class Renderer {
       output.push(packet);
     }
   }
+
+  async close(): Promise<void> {
+    for (const output of this.outputs) {
+      await output.close?.();
+    }
+  }
 }
@@ -0,0 +1,63 @@
+import { writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import type { ScheduleDefinition } from "../config/types.js";
+
+export class ScheduleStore {
+  private schedules: ScheduleDefinition[];
+  private listeners = new Set<() => void>();
+
+  constructor(schedules: ScheduleDefinition[]) {
+    this.schedules = [...schedules];
+  }
+
+  list(): ScheduleDefinition[] {
+    return [...this.schedules];
+  }
+
+  get(id: string): ScheduleDefinition | undefined {
+    return this.schedules.find((item) => item.id === id);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async create(schedule: ScheduleDefinition): Promise<ScheduleDefinition> {
+    if (this.get(schedule.id)) {
+      throw new Error(`Schedule already exists: ${schedule.id}`);
+    }
+    this.schedules.push(schedule);
+    await this.persist();
+    return schedule;
+  }
+
+  async update(id: string, schedule: ScheduleDefinition): Promise<ScheduleDefinition> {
+    const index = this.schedules.findIndex((item) => item.id === id);
+    if (index < 0) {
+      throw new Error(`Schedule not found: ${id}`);
+    }
+    this.schedules[index] = schedule;
+    await this.persist();
+    return schedule;
+  }
+
+  async remove(id: string): Promise<void> {
+    const before = this.schedules.length;
+    this.schedules = this.schedules.filter((item) => item.id !== id);
+    if (this.schedules.length === before) {
+      throw new Error(`Schedule not found: ${id}`);
+    }
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    const fullPath = resolve(process.cwd(), "data/schedules.json");
+    await writeFile(fullPath, `${JSON.stringify(this.schedules, null, 2)}\n`, "utf8");
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
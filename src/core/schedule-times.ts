@@ -0,0 +1,155 @@
+import { sunTimes } from "./sun.js";
+import type { ScheduleTrigger } from "../config/types.js";
+import type { GeoLocation } from "./sun.js";
+
+type CronFields = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Standard cron: when both day fields are restricted either may match.
+  dayOfMonthRestricted: boolean;
+  weekdayRestricted: boolean;
+};
+
+// How far ahead the next fire is searched for.
+const SEARCH_DAYS = 366 * 4;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+function parseCronField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid cron step in ${name}: ${part}`);
+
+    let start = min;
+    let end = max;
+    if (rangePart !== "*") {
+      const [from, to] = rangePart.split("-");
+      start = Number(from);
+      end = to === undefined ? (stepPart === undefined ? start : max) : Number(to);
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron ${name}: ${part} (expected ${min}-${max})`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error("Cron expression needs 5 fields: minute hour day month weekday");
+  const [minute, hour, dayOfMonth, month, weekday] = fields;
+  // 7 is accepted as Sunday.
+  const weekdays = parseCronField(weekday, 0, 7, "weekday");
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    minutes: parseCronField(minute, 0, 59, "minute"),
+    hours: parseCronField(hour, 0, 23, "hour"),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31, "day of month"),
+    months: parseCronField(month, 1, 12, "month"),
+    weekdays,
+    dayOfMonthRestricted: dayOfMonth !== "*",
+    weekdayRestricted: weekday !== "*",
+  };
+}
+
+function isWeekday(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+}
+
+export function validateScheduleTrigger(trigger: ScheduleTrigger, location: GeoLocation | null): string | null {
+  if (typeof trigger !== "object" || trigger === null) return "Schedule trigger is required";
+  if (trigger.type === "cron") {
+    if (typeof trigger.expression !== "string") return "Cron trigger requires an expression";
+    try {
+      parseCron(trigger.expression);
+    } catch (error) {
+      return error instanceof Error ? error.message : "Invalid cron expression";
+    }
+    return null;
+  }
+  if (trigger.type !== "time" && trigger.type !== "sun") return "Schedule trigger type must be cron, time or sun";
+  if (trigger.weekdays !== undefined && (!Array.isArray(trigger.weekdays) || !trigger.weekdays.every(isWeekday))) {
+    return "Schedule weekdays must be numbers from 0 (Sunday) to 6";
+  }
+  if (trigger.type === "time") {
+    return typeof trigger.time === "string" && TIME_PATTERN.test(trigger.time)
+      ? null
+      : "Time trigger requires time as HH:MM";
+  }
+  if (trigger.event !== "sunrise" && trigger.event !== "sunset") return "Sun trigger event must be sunrise or sunset";
+  if (trigger.offsetMinutes !== undefined && !Number.isFinite(trigger.offsetMinutes)) {
+    return "Sun trigger offsetMinutes must be a number";
+  }
+  if (!location) return "Sun triggers need CHASER_LATITUDE and CHASER_LONGITUDE";
+  return null;
+}
+
+function startOfDay(date: Date, addDays = 0): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + addDays);
+}
+
+function cronDayMatches(fields: CronFields, day: Date): boolean {
+  if (!fields.months.has(day.getMonth() + 1)) return false;
+  const dayOfMonth = fields.daysOfMonth.has(day.getDate());
+  const weekday = fields.weekdays.has(day.getDay());
+  if (fields.dayOfMonthRestricted && fields.weekdayRestricted) return dayOfMonth || weekday;
+  return dayOfMonth && weekday;
+}
+
+// Fire times of the trigger on one local day, in ascending order.
+function fireTimesOnDay(
+  trigger: ScheduleTrigger,
+  day: Date,
+  cron: CronFields | null,
+  location: GeoLocation | null,
+): Date[] {
+  if (cron) {
+    if (!cronDayMatches(cron, day)) return [];
+    const times: Date[] = [];
+    for (const hour of [...cron.hours].sort((a, b) => a - b)) {
+      for (const minute of [...cron.minutes].sort((a, b) => a - b)) {
+        times.push(new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute));
+      }
+    }
+    return times;
+  }
+  if (trigger.type === "cron") return [];
+  if (trigger.weekdays && trigger.weekdays.length > 0 && !trigger.weekdays.includes(day.getDay())) return [];
+  if (trigger.type === "time") {
+    const [hour, minute] = trigger.time.split(":").map(Number);
+    return [new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute)];
+  }
+  if (!location) return [];
+  const eventTime = sunTimes(day, location)[trigger.event];
+  if (!eventTime) return [];
+  const fireAt = new Date(eventTime.getTime() + (trigger.offsetMinutes ?? 0) * 60_000);
+  // Whole minutes, like the other trigger types.
+  fireAt.setSeconds(0, 0);
+  return [fireAt];
+}
+
+// The next `count` fire times strictly after `after`.
+export function nextFireTimes(
+  trigger: ScheduleTrigger,
+  after: Date,
+  location: GeoLocation | null,
+  count = 1,
+): Date[] {
+  const cron = trigger.type === "cron" ? parseCron(trigger.expression) : null;
+  const out: Date[] = [];
+  // Sun offsets can move a fire onto the neighbouring day, so start a day early.
+  for (let offset = -1; offset <= SEARCH_DAYS && out.length < count; offset += 1) {
+    for (const time of fireTimesOnDay(trigger, startOfDay(after, offset), cron, location)) {
+      if (time.getTime() > after.getTime() && !out.some((item) => item.getTime() === time.getTime())) {
+        out.push(time);
+      }
+      if (out.length >= count) break;
+    }
+  }
+  return out.sort((a, b) => a.getTime() - b.getTime());
+}
@@ -0,0 +1,143 @@
+import { nextFireTimes } from "./schedule-times.js";
+import type { ScheduleAction, ScheduleDefinition } from "../config/types.js";
+import type { ClientEvent } from "../ws/protocol.js";
+import type { ScheduleStore } from "./schedule-store.js";
+import type { GeoLocation } from "./sun.js";
+
+export type ScheduleFire = {
+  scheduleId: string;
+  name: string;
+  at: string;
+};
+
+// Timers are re-armed at least this often so clock changes (DST, NTP) are
+// picked up.
+const MAX_TIMER_MS = 60_000;
+
+export function locationFromEnv(env: NodeJS.ProcessEnv = process.env): GeoLocation | null {
+  if (env.CHASER_LATITUDE === undefined || env.CHASER_LONGITUDE === undefined) return null;
+  const latitude = Number(env.CHASER_LATITUDE);
+  const longitude = Number(env.CHASER_LONGITUDE);
+  if (!Number.isFinite(latitude) || Math.abs(latitude) > 90) return null;
+  if (!Number.isFinite(longitude) || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
+
+// The client events a schedule action stands for, so scheduled actions run
+// through the same handler as WS, REST and OSC.
+export function scheduleActionEvents(action: ScheduleAction): ClientEvent[] {
+  switch (action.type) {
+    case "program": {
+      const target = action.playbackId ? { playbackId: action.playbackId } : undefined;
+      return [
+        { type: "program", payload: { programId: action.programId, ...target } },
+        { type: "seek", payload: { stepIndex: 0, ...target } },
+        { type: "play", payload: target },
+      ];
+    }
+    case "tempo":
+      return [{ type: "tempo", payload: { spm: action.spm, playbackId: action.playbackId } }];
+    case "blackout":
+      return [{ type: "blackout", payload: { enabled: action.enabled } }];
+    case "layerAScene": {
+      const events: ClientEvent[] = [];
+      if (action.replace) {
+        for (const fixtureId of new Set(action.frames.map((frame) => frame.fixtureId))) {
+          events.push({ type: "layerAClearFixture", payload: { fixtureId, fadeMs: action.fadeMs } });
+        }
+      }
+      for (const frame of action.frames) {
+        events.push({
+          type: "layerASet",
+          payload: { fixtureId: frame.fixtureId, featureId: frame.featureId, value: frame.value, fadeMs: action.fadeMs },
+        });
+      }
+      return events;
+    }
+  }
+}
+
+// Fires enabled schedules at their next trigger time. Fires missed while the
+// server was down are not replayed.
+export class Scheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private nextFireById = new Map<string, number>();
+  private debug = process.env.CHASER_DEBUG === "1";
+
+  constructor(
+    private readonly store: ScheduleStore,
+    private readonly location: GeoLocation | null,
+    private readonly runEvent: (event: ClientEvent) => void,
+  ) {}
+
+  start(): void {
+    this.reload();
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // Recomputes every schedule's next fire after a change to the store.
+  reload(): void {
+    this.nextFireById.clear();
+    const now = new Date();
+    for (const schedule of this.store.list()) {
+      this.planNext(schedule, now);
+    }
+    this.arm();
+  }
+
+  upcoming(limit: number): ScheduleFire[] {
+    return [...this.nextFireById.entries()]
+      .sort((a, b) => a[1] - b[1])
+      .slice(0, limit)
+      .map(([scheduleId, at]) => ({
+        scheduleId,
+        name: this.store.get(scheduleId)?.name ?? scheduleId,
+        at: new Date(at).toISOString(),
+      }));
+  }
+
+  private planNext(schedule: ScheduleDefinition, after: Date): void {
+    if (schedule.enabled === false) return;
+    const [next] = nextFireTimes(schedule.trigger, after, this.location);
+    if (next) this.nextFireById.set(schedule.id, next.getTime());
+  }
+
+  private arm(): void {
+    this.stop();
+    const times = [...this.nextFireById.values()];
+    if (times.length === 0) return;
+    const delay = Math.max(0, Math.min(MAX_TIMER_MS, Math.min(...times) - Date.now()));
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private tick(): void {
+    this.timer = null;
+    const now = Date.now();
+    for (const [scheduleId, at] of [...this.nextFireById.entries()]) {
+      if (at > now) continue;
+      this.nextFireById.delete(scheduleId);
+      const schedule = this.store.get(scheduleId);
+      if (!schedule) continue;
+      this.fire(schedule);
+      this.planNext(schedule, new Date(Math.max(at, now)));
+    }
+    this.arm();
+  }
+
+  private fire(schedule: ScheduleDefinition): void {
+    if (this.debug) {
+      console.info("[scheduler-debug] fire", { scheduleId: schedule.id, action: schedule.action });
+    }
+    for (const event of scheduleActionEvents(schedule.action)) {
+      try {
+        this.runEvent(event);
+      } catch (error) {
+        console.error("[scheduler] action failed", schedule.id, error);
+      }
+    }
+  }
+}
@@ -1,5 +1,21 @@
-import type { FeatureValue, PlayheadState, ProgramDefinition } from "../config/types.js";
+import type {
+  EffectDefinition,
+  FeatureValue,
+  PlaybackDirection,
+  PlaybackMergeMode,
+  PlayheadState,
+  ProgramDefinition,
+  ProgramStep,
+  StepEasing,
+} from "../config/types.js";
 import { performance } from "node:perf_hooks";
+import { isKelvinValue } from "./cct.js";
+import { interpolateEased } from "./easing.js";
+import { renderEffect } from "./effects.js";
+import { MAX_16BIT_VALUE } from "./feature-values.js";
+import { firstStep, followingStep } from "./step-order.js";
+import type { EffectTarget } from "./effects.js";
+import type { StepPass } from "./step-order.js";
 
 type LayerValueMap = Record<string, number[]>;
 type VisibleMixMode = "static" | "sequencer";
@@ -7,21 +23,79 @@ type MixTransition = {
   startedAtMs: number;
   fromValues: LayerValueMap;
   toMode: VisibleMixMode;
+  easing?: StepEasing;
+  durationMs: number;
 };
 
-const MODE_SWITCH_FADE_MS = 500;
+type PlaybackTransport = Omit<PlayheadState, "isBlackout" | "waitingForGo">;
+type Playback = {
+  state: PlaybackTransport;
+  program: ProgramDefinition | null;
+  activatedAt: number;
+  pass: StepPass;
+  // The step the playhead moved from, so fades follow non-forward
+  // directions. Null after a jump.
+  previousStepIndex: number | null;
+  // Tracking values carried along the play order into the current and the
+  // previous step; used instead of stepValueMap when not playing forward.
+  tracked: Map<string, number[]>;
+  previousTracked: Map<string, number[]>;
+  // The playhead has wrapped past the end since the program started, so
+  // forward tracking may carry values from the last steps into the first.
+  hasWrapped: boolean;
+};
+type RunningEffect = {
+  definition: EffectDefinition;
+  targets: EffectTarget[];
+  phase: number;
+};
+type LayerAFade = {
+  fromValues: number[];
+  startedAtMs: number;
+  durationMs: number;
+};
+type InputLayer = {
+  values: LayerValueMap;
+  priority: number;
+  mergeMode: PlaybackMergeMode;
+};
+
+export const MODE_SWITCH_FADE_MS = 500;
+// A `follow` step of durationMs 500 lasts one beat at the playback's SPM.
+const BASE_STEP_DURATION_MS = 500;
 
+export const DEFAULT_PLAYBACK_ID = "main";
+
+// `fadeMs` fades the affected keys from their current value instead of
+// cutting (plus the usual mode-switch blend).
 export type LayerAOperation =
-  | { kind: "set"; fixtureId: string; featureId: string; value: FeatureValue }
-  | { kind: "clearFeature"; fixtureId: string; featureId: string }
-  | { kind: "clearFixture"; fixtureId: string };
+  | { kind: "set"; fixtureId: string; featureId: string; value: FeatureValue; fadeMs?: number }
+  | { kind: "clearFeature"; fixtureId: string; featureId: string; fadeMs?: number }
+  | { kind: "clearFixture"; fixtureId: string; fadeMs?: number };
+
+export type InputLayerOptions = {
+  priority?: number;
+  mergeMode?: PlaybackMergeMode;
+};
+
+// Emitted when a playback passes the end of its program: `stopped` is true
+// for a one-shot program, false when a looping program wraps to step 0.
+export type ProgramEndEvent = {
+  playbackId: string;
+  programId: string;
+  stopped: boolean;
+};
 
 export type SequencerFrame = {
   timestamp: number;
   values: Record<string, number[]>;
   layerAValues: LayerValueMap;
   layerBValues: LayerValueMap;
+  effectValues: LayerValueMap;
+  inputValues: LayerValueMap;
   state: PlayheadState;
+  playbacks: PlayheadState[];
+  effects: EffectDefinition[];
 };
 
 function frameKey(fixtureId: string, featureId: string): string {
@@ -38,10 +112,12 @@ function asArray(value: FeatureValue): number[] {
   return Array.isArray(value) ? value : [value];
 }
 
+// The sequencer does not know which features are 16-bit, so it only clamps
+// to the widest value space; render packets clamp per feature.
 function clampChannel(value: number): number {
   if (!Number.isFinite(value)) return 0;
   if (value < 0) return 0;
-  if (value > 255) return 255;
+  if (value > MAX_16BIT_VALUE) return MAX_16BIT_VALUE;
   return Math.round(value);
 }
 
@@ -66,7 +142,12 @@ function cloneLayerValues(values: LayerValueMap): LayerValueMap {
   return clone;
 }
 
-function interpolateLayerValues(fromValues: LayerValueMap, toValues: LayerValueMap, ratio: number): LayerValueMap {
+function interpolateLayerValues(
+  fromValues: LayerValueMap,
+  toValues: LayerValueMap,
+  ratio: number,
+  easing?: StepEasing,
+): LayerValueMap {
   const combined: LayerValueMap = {};
   const keys = new Set([...Object.keys(fromValues), ...Object.keys(toValues)]);
   for (const key of keys) {
@@ -77,159 +158,363 @@ function interpolateLayerValues(fromValues: LayerValueMap, toValues: LayerValueM
     for (let i = 0; i < length; i += 1) {
       const fromValue = from[i] ?? from[0] ?? 0;
       const toValue = to[i] ?? to[0] ?? 0;
-      out.push(clampChannel(fromValue + (toValue - fromValue) * ratio));
+      out.push(clampChannel(interpolateEased(fromValue, toValue, ratio, easing)));
     }
     if (!isZeroValue(out)) combined[key] = out;
   }
   return combined;
 }
 
-export class Sequencer {
-  private state: PlayheadState = {
+function clampSpm(spm: number): number {
+  return Math.max(1, Math.min(500, Math.round(spm)));
+}
+
+// How long a step holds before the playhead moves on; `go` steps hold until
+// a `next`.
+function stepHoldMs(step: ProgramStep, spm: number): number {
+  if (step.trigger === "go") return Number.POSITIVE_INFINITY;
+  if (step.trigger === "wait") return Math.max(1, step.waitMs ?? 0);
+  return (60000 / spm) * (Math.max(1, step.durationMs) / BASE_STEP_DURATION_MS);
+}
+
+// The values a step shows when played forward. Tracking programs look back
+// through earlier steps
+// (wrapping past step 0 when `wrap`) for features the step does not set;
+// the most recent frame per feature wins and a release drops the feature.
+function stepValueMap(program: ProgramDefinition, stepIndex: number, wrap: boolean): Map<string, number[]> {
+  const steps = program.steps;
+  const lookback = program.tracking ? (wrap ? steps.length : stepIndex + 1) : 1;
+  const values = new Map<string, number[]>();
+  const decided = new Set<string>();
+  for (let offset = 0; offset < lookback; offset += 1) {
+    const frames = steps[(stepIndex - offset + steps.length) % steps.length].frames;
+    // Within a step the last frame for a feature wins.
+    for (let i = frames.length - 1; i >= 0; i -= 1) {
+      const frame = frames[i];
+      const key = frameKey(frame.fixtureId, frame.featureId);
+      if (decided.has(key)) continue;
+      decided.add(key);
+      // Kelvin values are resolved before programs reach the sequencer
+      // (resolveProgramValues); an unresolved one is skipped.
+      if (frame.release || isKelvinValue(frame.value)) continue;
+      values.set(key, asArray(frame.value));
+    }
+  }
+  return values;
+}
+
+// Applies a step's frames over the values carried into it. Releases (and
+// unresolved kelvin values, as in stepValueMap) drop the feature.
+function trackStep(carried: Map<string, number[]>, step: ProgramStep): Map<string, number[]> {
+  const values = new Map(carried);
+  for (const frame of step.frames) {
+    const key = frameKey(frame.fixtureId, frame.featureId);
+    if (frame.release || isKelvinValue(frame.value)) {
+      values.delete(key);
+    } else {
+      values.set(key, asArray(frame.value));
+    }
+  }
+  return values;
+}
+
+function idleTransport(playbackId: string): PlaybackTransport {
+  return {
+    playbackId,
+    priority: 0,
+    mergeMode: "htp",
     isPlaying: false,
-    isBlackout: false,
     programId: null,
     stepIndex: 0,
     positionMs: 0,
     spm: 120,
     loop: true,
+    direction: "forward",
+  };
+}
+
+function idlePlayback(playbackId: string): Playback {
+  return {
+    state: idleTransport(playbackId),
+    program: null,
+    activatedAt: 0,
+    pass: firstStep("forward", 0).pass,
+    previousStepIndex: null,
+    tracked: new Map(),
+    previousTracked: new Map(),
+    hasWrapped: false,
   };
+}
+
+// Folds one source (a playback or an effect) into a merged layer. LTP
+// replaces the whole feature; HTP keeps the highest value per channel.
+function mergeLayerValues(target: LayerValueMap, values: LayerValueMap, mode: PlaybackMergeMode): void {
+  for (const [key, entry] of Object.entries(values)) {
+    const existing = target[key];
+    if (mode === "ltp" || !existing) {
+      target[key] = [...entry];
+      continue;
+    }
+    const length = Math.max(existing.length, entry.length);
+    const out: number[] = [];
+    for (let i = 0; i < length; i += 1) {
+      out.push(Math.max(existing[i] ?? 0, entry[i] ?? 0));
+    }
+    target[key] = out;
+  }
+}
 
+export class Sequencer {
+  private playbacks = new Map<string, Playback>([
+    [DEFAULT_PLAYBACK_ID, idlePlayback(DEFAULT_PLAYBACK_ID)],
+  ]);
+
+  private isBlackout = false;
+  private activationCounter = 0;
   private timer: NodeJS.Timeout | null = null;
   private mixTimer: NodeJS.Timeout | null = null;
   private frameIntervalMs = 33;
   private lastTickAtMs: number | null = null;
   private listeners = new Set<(frame: SequencerFrame) => void>();
-  private activeProgram: ProgramDefinition | null = null;
+  private programEndListeners = new Set<(event: ProgramEndEvent) => void>();
+  private pendingProgramEnds: ProgramEndEvent[] = [];
   private layerAValues: LayerValueMap = {};
+  private layerAFades = new Map<string, LayerAFade>();
+  private effects = new Map<string, RunningEffect>();
+  private inputs = new Map<string, InputLayer>();
   private mixTransition: MixTransition | null = null;
   private debug = process.env.CHASER_DEBUG === "1";
 
   setProgram(
     program: ProgramDefinition,
-    options?: { preservePlayhead?: boolean; suppressEmit?: boolean; preserveTempo?: boolean },
+    options?: {
+      preservePlayhead?: boolean;
+      suppressEmit?: boolean;
+      preserveTempo?: boolean;
+      playbackId?: string;
+      // Fades from what is visible now instead of cutting to the program.
+      crossfadeMs?: number;
+      // Starts the playback if it is stopped.
+      play?: boolean;
+    },
   ): void {
+    const playback = this.ensurePlayback(options?.playbackId ?? DEFAULT_PLAYBACK_ID);
+    const state = playback.state;
+    const fromValues = options?.crossfadeMs !== undefined ? this.captureVisibleValues() : null;
     this.trace("setProgram:begin", {
+      playbackId: state.playbackId,
       programId: program.id,
       preservePlayhead: Boolean(options?.preservePlayhead),
       steps: program.steps.length,
-      prevState: this.state,
+      prevState: state,
     });
-    this.activeProgram = program;
-    this.state.programId = program.id;
+    playback.program = program;
+    playback.activatedAt = this.nextActivation();
+    state.programId = program.id;
     if (!options?.preserveTempo) {
-      this.state.spm = Math.max(1, Math.min(500, Math.round(program.spm)));
+      state.spm = clampSpm(program.spm);
     }
-    this.state.loop = program.loop;
+    state.loop = program.loop;
+    const direction = program.direction ?? "forward";
+    if (direction !== state.direction) this.changeDirection(playback, direction);
     if (options?.preservePlayhead) {
       const maxStepIndex = Math.max(0, program.steps.length - 1);
-      this.state.stepIndex = Math.min(this.state.stepIndex, maxStepIndex);
+      state.stepIndex = Math.min(state.stepIndex, maxStepIndex);
+      // Picks up edits to the current step; carried values stay.
+      const step = program.steps[state.stepIndex];
+      if (step) playback.tracked = trackStep(playback.tracked, step);
     } else {
-      this.state.stepIndex = 0;
-      this.state.positionMs = 0;
+      this.rewind(playback);
+    }
+    if (options?.play && !state.isPlaying && program.steps.length > 0) {
+      state.isPlaying = true;
+      this.startTimer();
+    }
+    if (fromValues) {
+      this.beginModeTransition(this.getVisibleMixMode(), fromValues, undefined, options?.crossfadeMs);
     }
     if (!options?.suppressEmit) {
       this.emitFrame();
     }
-    this.trace("setProgram:end", { state: this.state });
+    this.trace("setProgram:end", { state });
   }
 
-  getState(): PlayheadState {
-    return { ...this.state };
+  getState(playbackId = DEFAULT_PLAYBACK_ID): PlayheadState {
+    const playback = this.playbacks.get(playbackId);
+    return this.snapshotState(playback?.state ?? idleTransport(playbackId));
   }
 
-  getProgramId(): string | null {
-    return this.state.programId;
+  getPlaybackStates(): PlayheadState[] {
+    return [...this.playbacks.values()].map((playback) => this.snapshotState(playback.state));
+  }
+
+  getProgramId(playbackId = DEFAULT_PLAYBACK_ID): string | null {
+    return this.playbacks.get(playbackId)?.state.programId ?? null;
   }
 
   getFrame(): SequencerFrame {
     return this.buildFrame();
   }
 
-  play(): void {
-    if (!this.activeProgram) return;
-    if (this.state.isPlaying) return;
+  // `fixtureIds` masks the playback to those fixtures; `null` lifts the mask.
+  configurePlayback(
+    playbackId: string,
+    options: { priority?: number; mergeMode?: PlaybackMergeMode; fixtureIds?: string[] | null },
+  ): void {
+    const playback = this.ensurePlayback(playbackId);
+    if (options.priority !== undefined && Number.isFinite(options.priority)) {
+      playback.state.priority = Math.round(options.priority);
+    }
+    if (options.mergeMode === "htp" || options.mergeMode === "ltp") {
+      playback.state.mergeMode = options.mergeMode;
+    }
+    if (options.fixtureIds === null) {
+      delete playback.state.fixtureIds;
+    } else if (Array.isArray(options.fixtureIds)) {
+      playback.state.fixtureIds = options.fixtureIds.map(String);
+    }
+    this.emitFrame();
+    this.trace("configurePlayback", { state: playback.state });
+  }
+
+  removePlayback(playbackId: string): void {
+    if (playbackId === DEFAULT_PLAYBACK_ID) return;
+    const playback = this.playbacks.get(playbackId);
+    if (!playback) return;
     const fromValues = this.captureVisibleValues();
-    this.state.stepIndex = 0;
-    this.state.positionMs = 0;
-    this.state.isPlaying = true;
-    this.beginModeTransition("sequencer", fromValues);
+    this.playbacks.delete(playbackId);
+    if (playback.state.isPlaying) {
+      if (!this.needsClock()) this.stopTimer();
+      this.beginModeTransition(this.getVisibleMixMode(), fromValues);
+    }
+    this.emitFrame();
+    this.trace("removePlayback", { playbackId });
+  }
+
+  play(playbackId = DEFAULT_PLAYBACK_ID): void {
+    const playback = this.playbacks.get(playbackId);
+    if (!playback?.program) return;
+    if (playback.state.isPlaying) return;
+    const fromValues = this.captureVisibleValues();
+    this.rewind(playback);
+    playback.state.isPlaying = true;
+    playback.activatedAt = this.nextActivation();
+    this.beginModeTransition("sequencer", fromValues, this.currentStepEasing(playback));
     this.emitFrame();
     this.startTimer();
-    this.trace("play", { state: this.state });
+    this.trace("play", { state: playback.state });
   }
 
-  resume(): void {
-    if (!this.activeProgram) return;
-    if (this.state.isPlaying) return;
+  resume(playbackId = DEFAULT_PLAYBACK_ID): void {
+    const playback = this.playbacks.get(playbackId);
+    if (!playback?.program) return;
+    if (playback.state.isPlaying) return;
     const fromValues = this.captureVisibleValues();
-    this.state.isPlaying = true;
-    this.beginModeTransition("sequencer", fromValues);
+    playback.state.isPlaying = true;
+    playback.activatedAt = this.nextActivation();
+    this.beginModeTransition("sequencer", fromValues, this.currentStepEasing(playback));
     this.emitFrame();
     this.startTimer();
-    this.trace("resume", { state: this.state });
+    this.trace("resume", { state: playback.state });
   }
 
-  pause(): void {
+  pause(playbackId = DEFAULT_PLAYBACK_ID): void {
+    const playback = this.playbacks.get(playbackId);
+    if (!playback) return;
     const fromValues = this.captureVisibleValues();
-    this.state.isPlaying = false;
-    this.stopTimer();
-    this.beginModeTransition("static", fromValues);
+    playback.state.isPlaying = false;
+    if (!this.needsClock()) this.stopTimer();
+    this.beginModeTransition(this.getVisibleMixMode(), fromValues);
     this.emitFrame();
-    this.trace("pause", { state: this.state });
+    this.trace("pause", { state: playback.state });
   }
 
-  nextStep(): void {
-    if (!this.activeProgram || this.activeProgram.steps.length === 0) return;
-    if (!this.state.loop && this.state.stepIndex >= this.activeProgram.steps.length - 1) {
-      this.state.stepIndex = this.activeProgram.steps.length - 1;
-    } else {
-      this.state.stepIndex = (this.state.stepIndex + 1) % this.activeProgram.steps.length;
+  nextStep(playbackId = DEFAULT_PLAYBACK_ID): void {
+    const playback = this.playbacks.get(playbackId);
+    if (!playback?.program || playback.program.steps.length === 0) return;
+    const state = playback.state;
+    const move = followingStep(state.direction, state.stepIndex, playback.pass, playback.program.steps.length);
+    // Leaving the last step ends the pass like the clock does (the GO on a
+    // final cue); a one-shot stays on its last step.
+    const stopped = move.wrapped && state.isPlaying && this.endPass(playback, playback.program.id);
+    if (!stopped && (state.loop || !move.wrapped)) {
+      playback.previousStepIndex = state.stepIndex;
+      state.stepIndex = move.stepIndex;
+      playback.pass = move.pass;
+      if (move.wrapped) playback.hasWrapped = true;
+      this.trackMove(playback, true);
+    }
+    state.positionMs = 0;
+    if (stopped && !this.needsClock()) {
+      this.stopTimer();
+      this.startMixTimer();
     }
-    this.state.positionMs = 0;
     this.emitFrame();
-    this.trace("nextStep", { state: this.state });
+    this.flushProgramEnds();
+    this.trace("nextStep", { state });
   }
 
-  previousStep(): void {
-    if (!this.activeProgram || this.activeProgram.steps.length === 0) return;
-    if (!this.state.loop && this.state.stepIndex <= 0) {
-      this.state.stepIndex = 0;
-    } else {
-      this.state.stepIndex =
-        (this.state.stepIndex - 1 + this.activeProgram.steps.length) % this.activeProgram.steps.length;
+  previousStep(playbackId = DEFAULT_PLAYBACK_ID): void {
+    const playback = this.playbacks.get(playbackId);
+    if (!playback?.program || playback.program.steps.length === 0) return;
+    const state = playback.state;
+    const stepIndex = this.stepBefore(playback);
+    if (stepIndex === playback.previousStepIndex) {
+      // Going back the way the playhead came restores what that step showed.
+      [playback.tracked, playback.previousTracked] = [playback.previousTracked, playback.tracked];
+    } else if (stepIndex !== state.stepIndex) {
+      playback.previousTracked = playback.tracked;
+      playback.tracked = trackStep(new Map(), playback.program.steps[stepIndex]);
     }
-    this.state.positionMs = 0;
+    playback.previousStepIndex = stepIndex === state.stepIndex ? null : state.stepIndex;
+    state.stepIndex = stepIndex;
+    state.positionMs = 0;
     this.emitFrame();
-    this.trace("previousStep", { state: this.state });
+    this.trace("previousStep", { state });
   }
 
-  setStep(stepIndex: number): void {
-    if (!this.activeProgram) return;
+  setStep(stepIndex: number, playbackId = DEFAULT_PLAYBACK_ID): void {
+    const playback = this.playbacks.get(playbackId);
+    if (!playback?.program) return;
     const clamped = Math.max(0, Math.floor(stepIndex));
-    this.ensureProgramStep(clamped);
-    this.state.stepIndex = clamped;
-    this.state.positionMs = 0;
+    this.ensureProgramStep(playback, clamped);
+    playback.state.stepIndex = clamped;
+    playback.state.positionMs = 0;
+    playback.previousStepIndex = null;
+    this.trackMove(playback, false);
     this.emitFrame();
-    this.trace("setStep", { input: stepIndex, clamped, state: this.state });
+    this.trace("setStep", { input: stepIndex, clamped, state: playback.state });
   }
 
-  setSpm(spm: number): void {
-    this.state.spm = Math.max(1, Math.min(500, Math.round(spm)));
+  setSpm(spm: number, playbackId = DEFAULT_PLAYBACK_ID): void {
+    const playback = this.playbacks.get(playbackId);
+    if (!playback) return;
+    playback.state.spm = clampSpm(spm);
     this.emitFrame();
-    this.trace("setSpm", { input: spm, state: this.state });
+    this.trace("setSpm", { input: spm, state: playback.state });
   }
 
-  setLoop(enabled: boolean): void {
-    this.state.loop = enabled;
+  setLoop(enabled: boolean, playbackId = DEFAULT_PLAYBACK_ID): void {
+    const playback = this.playbacks.get(playbackId);
+    if (!playback) return;
+    playback.state.loop = enabled;
     this.emitFrame();
-    this.trace("setLoop", { enabled, state: this.state });
+    this.trace("setLoop", { enabled, state: playback.state });
+  }
+
+  // Takes effect from the current step; the new direction starts a fresh pass.
+  setDirection(direction: PlaybackDirection, playbackId = DEFAULT_PLAYBACK_ID): void {
+    const playback = this.playbacks.get(playbackId);
+    if (!playback) return;
+    this.changeDirection(playback, direction);
+    this.emitFrame();
+    this.trace("setDirection", { direction, state: playback.state });
   }
 
   setFrameRate(fps: number): void {
     const clampedFps = Math.max(1, Math.min(120, Math.round(fps)));
     this.frameIntervalMs = Math.max(1, Math.round(1000 / clampedFps));
-    if (this.state.isPlaying) {
+    if (this.timer) {
       this.stopTimer();
       this.startTimer();
     } else if (this.mixTransition) {
@@ -239,39 +524,47 @@ export class Sequencer {
     this.trace("setFrameRate", { input: fps, frameIntervalMs: this.frameIntervalMs });
   }
 
+  // Re-emits the current frame so outputs render against an edited patch.
+  refresh(): void {
+    this.emitFrame();
+  }
+
   setBlackout(enabled: boolean): void {
-    this.state.isBlackout = enabled;
+    this.isBlackout = enabled;
     this.emitFrame();
-    this.trace("setBlackout", { enabled, state: this.state });
+    this.trace("setBlackout", { enabled });
   }
 
-  setLayerAValue(fixtureId: string, featureId: string, value: FeatureValue): void {
+  setLayerAValue(fixtureId: string, featureId: string, value: FeatureValue, fadeMs = 0): void {
     const fromValues = this.getVisibleMixMode() === "static" ? this.captureVisibleValues() : null;
     const key = frameKey(fixtureId, featureId);
-    const changed = this.setLayerAKey(key, value);
+    const changed = this.setLayerAKey(key, value, fadeMs);
     if (!changed) return;
-    if (fromValues) this.beginModeTransition("static", fromValues);
+    if (fromValues && !(fadeMs > 0)) this.beginModeTransition("static", fromValues);
+    this.startLayerAFadeClock();
     this.emitFrame();
-    this.trace("setLayerAValue", { key, value: this.layerAValues[key] ?? [0] });
+    this.trace("setLayerAValue", { key, value: this.layerAValues[key] ?? [0], fadeMs });
   }
 
-  clearLayerAFeature(fixtureId: string, featureId: string): void {
+  clearLayerAFeature(fixtureId: string, featureId: string, fadeMs = 0): void {
     const fromValues = this.getVisibleMixMode() === "static" ? this.captureVisibleValues() : null;
     const key = frameKey(fixtureId, featureId);
-    const changed = this.clearLayerAKey(key);
+    const changed = this.clearLayerAKey(key, fadeMs);
     if (!changed) return;
-    if (fromValues) this.beginModeTransition("static", fromValues);
+    if (fromValues && !(fadeMs > 0)) this.beginModeTransition("static", fromValues);
+    this.startLayerAFadeClock();
     this.emitFrame();
-    this.trace("clearLayerAFeature", { key });
+    this.trace("clearLayerAFeature", { key, fadeMs });
   }
 
-  clearLayerAFixture(fixtureId: string): void {
+  clearLayerAFixture(fixtureId: string, fadeMs = 0): void {
     const fromValues = this.getVisibleMixMode() === "static" ? this.captureVisibleValues() : null;
-    const changed = this.clearLayerAFixtureKeys(fixtureId);
+    const changed = this.clearLayerAFixtureKeys(fixtureId, fadeMs);
     if (!changed) return;
-    if (fromValues) this.beginModeTransition("static", fromValues);
+    if (fromValues && !(fadeMs > 0)) this.beginModeTransition("static", fromValues);
+    this.startLayerAFadeClock();
     this.emitFrame();
-    this.trace("clearLayerAFixture", { fixtureId });
+    this.trace("clearLayerAFixture", { fixtureId, fadeMs });
   }
 
   applyLayerABatch(operations: LayerAOperation[]): void {
@@ -281,42 +574,57 @@ export class Sequencer {
     for (const operation of operations) {
       switch (operation.kind) {
         case "set":
-          changed = this.setLayerAKey(frameKey(operation.fixtureId, operation.featureId), operation.value) || changed;
+          changed = this.setLayerAKey(
+            frameKey(operation.fixtureId, operation.featureId),
+            operation.value,
+            operation.fadeMs,
+          ) || changed;
           break;
         case "clearFeature":
-          changed = this.clearLayerAKey(frameKey(operation.fixtureId, operation.featureId)) || changed;
+          changed = this.clearLayerAKey(frameKey(operation.fixtureId, operation.featureId), operation.fadeMs)
+            || changed;
           break;
         case "clearFixture":
-          changed = this.clearLayerAFixtureKeys(operation.fixtureId) || changed;
+          changed = this.clearLayerAFixtureKeys(operation.fixtureId, operation.fadeMs) || changed;
           break;
       }
     }
     if (!changed) return;
-    if (fromValues) this.beginModeTransition("static", fromValues);
+    // Faded keys bring their own transition; only cuts need the mode blend.
+    const hasCut = operations.some((operation) => !((operation.fadeMs ?? 0) > 0));
+    if (fromValues && hasCut) this.beginModeTransition("static", fromValues);
+    this.startLayerAFadeClock();
     this.emitFrame();
     this.trace("applyLayerABatch", { operations: operations.length });
   }
 
-  applyStateSnapshot(snapshot: Pick<
-    PlayheadState,
-    "stepIndex" | "positionMs" | "spm" | "loop" | "isBlackout" | "isPlaying"
-  >): void {
-    if (!this.activeProgram) return;
-    this.trace("applyStateSnapshot:begin", { snapshot, prevState: this.state });
+  applyStateSnapshot(
+    snapshot: Pick<PlayheadState, "stepIndex" | "positionMs" | "spm" | "loop" | "direction" | "isBlackout" | "isPlaying">,
+    playbackId = DEFAULT_PLAYBACK_ID,
+  ): void {
+    const playback = this.playbacks.get(playbackId);
+    if (!playback?.program) return;
+    const state = playback.state;
+    this.trace("applyStateSnapshot:begin", { snapshot, prevState: state });
     const previousMode = this.getVisibleMixMode();
     const fromValues = this.captureVisibleValues();
-    const maxStepIndex = Math.max(0, this.activeProgram.steps.length - 1);
+    const maxStepIndex = Math.max(0, playback.program.steps.length - 1);
     const stepIndex = Math.max(0, Math.min(maxStepIndex, Math.floor(snapshot.stepIndex)));
-    this.ensureProgramStep(stepIndex);
+    this.ensureProgramStep(playback, stepIndex);
 
-    this.state.stepIndex = stepIndex;
-    this.state.positionMs = Math.max(0, snapshot.positionMs);
-    this.state.spm = Math.max(1, Math.min(500, Math.round(snapshot.spm)));
-    this.state.loop = Boolean(snapshot.loop);
-    this.state.isBlackout = Boolean(snapshot.isBlackout);
-    this.state.isPlaying = Boolean(snapshot.isPlaying);
-
-    if (this.state.isPlaying) {
+    if (stepIndex !== state.stepIndex) {
+      state.stepIndex = stepIndex;
+      playback.previousStepIndex = null;
+      this.trackMove(playback, false);
+    }
+    state.positionMs = Math.max(0, snapshot.positionMs);
+    state.spm = clampSpm(snapshot.spm);
+    state.loop = Boolean(snapshot.loop);
+    if (snapshot.direction !== state.direction) this.changeDirection(playback, snapshot.direction);
+    state.isPlaying = Boolean(snapshot.isPlaying);
+    this.isBlackout = Boolean(snapshot.isBlackout);
+
+    if (this.needsClock()) {
       this.startTimer();
     } else {
       this.stopTimer();
@@ -325,12 +633,52 @@ export class Sequencer {
     const nextMode = this.getVisibleMixMode();
     if (nextMode !== previousMode) {
       this.beginModeTransition(nextMode, fromValues);
-    } else if (!this.state.isPlaying) {
+    } else if (!this.isAnyPlaying()) {
       this.stopMixTimer();
     }
 
     this.emitFrame();
-    this.trace("applyStateSnapshot:end", { state: this.state });
+    this.trace("applyStateSnapshot:end", { state });
+  }
+
+  startEffect(definition: EffectDefinition, targets: EffectTarget[]): void {
+    const fromValues = this.captureVisibleValues();
+    const existing = this.effects.get(definition.id);
+    this.effects.set(definition.id, { definition, targets, phase: existing?.phase ?? 0 });
+    this.beginModeTransition(this.getVisibleMixMode(), fromValues);
+    this.startTimer();
+    this.emitFrame();
+    this.trace("startEffect", { effectId: definition.id, targets: targets.length });
+  }
+
+  stopEffect(effectId: string): void {
+    if (!this.effects.has(effectId)) return;
+    const fromValues = this.captureVisibleValues();
+    this.effects.delete(effectId);
+    if (!this.needsClock()) this.stopTimer();
+    this.beginModeTransition(this.getVisibleMixMode(), fromValues);
+    this.emitFrame();
+    this.trace("stopEffect", { effectId });
+  }
+
+  // External sources (ArtNet input) take over immediately; the clock, when
+  // running, picks the new values up on its next tick.
+  setInputValues(inputId: string, values: LayerValueMap, options: InputLayerOptions = {}): void {
+    this.inputs.set(inputId, {
+      values: cloneLayerValues(values),
+      priority: options.priority ?? 0,
+      mergeMode: options.mergeMode ?? "htp",
+    });
+    if (!this.needsClock()) this.emitFrame();
+  }
+
+  releaseInput(inputId: string, fadeMs = MODE_SWITCH_FADE_MS): void {
+    if (!this.inputs.has(inputId)) return;
+    const fromValues = this.captureVisibleValues();
+    this.inputs.delete(inputId);
+    this.beginModeTransition(this.getVisibleMixMode(), fromValues, undefined, fadeMs);
+    this.emitFrame();
+    this.trace("releaseInput", { inputId, fadeMs });
   }
 
   subscribe(listener: (frame: SequencerFrame) => void): () => void {
@@ -340,6 +688,111 @@ export class Sequencer {
     };
   }
 
+  // Listeners run after the frame of the tick that ended the program, so
+  // they may load another program straight away.
+  subscribeProgramEnd(listener: (event: ProgramEndEvent) => void): () => void {
+    this.programEndListeners.add(listener);
+    return () => {
+      this.programEndListeners.delete(listener);
+    };
+  }
+
+  // Puts the playhead on the first step of a new pass.
+  private rewind(playback: Playback): void {
+    const move = firstStep(playback.state.direction, playback.program?.steps.length ?? 0);
+    playback.state.stepIndex = move.stepIndex;
+    playback.state.positionMs = 0;
+    playback.pass = move.pass;
+    playback.previousStepIndex = null;
+    playback.hasWrapped = false;
+    this.trackMove(playback, false);
+  }
+
+  // Moves the tracked values to the current step: `carry` for a move along
+  // the play order, otherwise the step starts from its own values.
+  private trackMove(playback: Playback, carry: boolean): void {
+    const step = playback.program?.steps[playback.state.stepIndex];
+    const tracked = step ? trackStep(carry ? playback.tracked : new Map(), step) : new Map<string, number[]>();
+    playback.previousTracked = carry ? playback.tracked : tracked;
+    playback.tracked = tracked;
+  }
+
+  // The new direction starts a fresh pass from the current step. Leaving
+  // forward seeds the tracked values with what the step shows now.
+  private changeDirection(playback: Playback, direction: PlaybackDirection): void {
+    const state = playback.state;
+    if (state.direction === "forward" && playback.program && playback.program.steps.length > 0) {
+      const maxStepIndex = playback.program.steps.length - 1;
+      playback.tracked = stepValueMap(
+        playback.program,
+        Math.min(state.stepIndex, maxStepIndex),
+        state.loop && playback.hasWrapped,
+      );
+      playback.previousTracked = playback.tracked;
+    }
+    state.direction = direction;
+    playback.pass = firstStep(direction, 0).pass;
+  }
+
+  // The step "previous" goes back to for the playback's direction.
+  private stepBefore(playback: Playback): number {
+    const state = playback.state;
+    const lastIndex = Math.max(0, (playback.program?.steps.length ?? 0) - 1);
+    switch (state.direction) {
+      case "reverse":
+        if (state.stepIndex < lastIndex) return state.stepIndex + 1;
+        return state.loop ? 0 : lastIndex;
+      case "ping-pong":
+        return Math.max(0, Math.min(lastIndex, state.stepIndex - playback.pass.heading));
+      case "random":
+      case "shuffle":
+        return playback.previousStepIndex ?? state.stepIndex;
+      default:
+        if (state.stepIndex > 0) return state.stepIndex - 1;
+        return state.loop ? lastIndex : 0;
+    }
+  }
+
+  private ensurePlayback(playbackId: string): Playback {
+    const existing = this.playbacks.get(playbackId);
+    if (existing) return existing;
+    const playback = idlePlayback(playbackId);
+    this.playbacks.set(playbackId, playback);
+    this.trace("ensurePlayback", { playbackId });
+    return playback;
+  }
+
+  private nextActivation(): number {
+    this.activationCounter += 1;
+    return this.activationCounter;
+  }
+
+  private snapshotState(state: PlaybackTransport): PlayheadState {
+    const program = this.playbacks.get(state.playbackId)?.program;
+    return {
+      ...state,
+      ...(state.fixtureIds ? { fixtureIds: [...state.fixtureIds] } : {}),
+      isBlackout: this.isBlackout,
+      waitingForGo: state.isPlaying && program?.steps[state.stepIndex]?.trigger === "go",
+    };
+  }
+
+  private playingPlaybacks(): Playback[] {
+    return [...this.playbacks.values()].filter(
+      (playback) => playback.state.isPlaying && playback.program && playback.program.steps.length > 0,
+    );
+  }
+
+  private isAnyPlaying(): boolean {
+    return this.playingPlaybacks().length > 0;
+  }
+
+  // The frame clock runs while any playback plays, any effect animates or
+  // any Layer A key is fading.
+  private needsClock(): boolean {
+    return this.isAnyPlaying() || this.effects.size > 0 || this.layerAFades.size > 0;
+  }
+
   private startTimer(): void {
     if (this.timer) return;
     this.lastTickAtMs = performance.now();
@@ -357,11 +810,11 @@ export class Sequencer {
   }
 
   private startMixTimer(): void {
-    if (this.state.isPlaying) return;
+    if (this.needsClock()) return;
     if (!this.mixTransition) return;
     if (this.mixTimer) return;
     this.mixTimer = setInterval(() => {
-      if (this.state.isPlaying || !this.mixTransition) {
+      if (this.needsClock() || !this.mixTransition) {
         this.stopMixTimer();
         return;
       }
@@ -378,70 +831,110 @@ export class Sequencer {
   }
 
   private tick(): void {
-    if (!this.activeProgram || !this.state.isPlaying) return;
-    this.trace("tick:begin", { state: this.state });
-    this.ensureProgramStep(this.state.stepIndex);
-    const steps = this.activeProgram.steps;
-    if (steps.length === 0) return;
+    if (!this.needsClock()) return;
+    const playing = this.playingPlaybacks();
 
     const nowMs = performance.now();
     const elapsedMsRaw = this.lastTickAtMs === null ? this.frameIntervalMs : nowMs - this.lastTickAtMs;
     this.lastTickAtMs = nowMs;
     const elapsedMs = Math.max(0, Math.min(1000, elapsedMsRaw));
 
-    this.state.positionMs += elapsedMs;
-
-    while (this.state.isPlaying) {
-      const step = steps[this.state.stepIndex];
-      const baseStepDurationMs = 500;
-      const stepScale = Math.max(1, step.durationMs) / baseStepDurationMs;
-      const targetStepDurationMs = (60000 / this.state.spm) * stepScale;
-
-      if (this.state.positionMs < targetStepDurationMs) break;
-      this.state.positionMs -= targetStepDurationMs;
-
-      if (this.state.stepIndex >= steps.length - 1) {
-        if (this.state.loop) {
-          this.state.stepIndex = 0;
-        } else {
-          this.state.stepIndex = steps.length - 1;
-          this.state.positionMs = 0;
-          this.state.isPlaying = false;
-          const fromValues = this.buildSequencerValues();
-          this.stopTimer();
-          this.beginModeTransition("static", fromValues);
-          break;
-        }
-      } else {
-        this.state.stepIndex += 1;
-      }
+    for (const playback of playing) {
+      this.advancePlayback(playback, elapsedMs);
+    }
+    for (const effect of this.effects.values()) {
+      const spm = this.playbacks.get(effect.definition.playbackId ?? DEFAULT_PLAYBACK_ID)?.state.spm ?? 120;
+      effect.phase += (elapsedMs / 60000) * spm * effect.definition.speed;
+    }
+    this.pruneLayerAFades(nowMs);
+    if (!this.needsClock()) {
+      this.stopTimer();
+      this.startMixTimer();
     }
 
     this.emitFrame();
-    this.trace("tick:end", { state: this.state });
+    this.flushProgramEnds();
+  }
+
+  private flushProgramEnds(): void {
+    const events = this.pendingProgramEnds;
+    this.pendingProgramEnds = [];
+    for (const event of events) {
+      for (const listener of this.programEndListeners) {
+        listener(event);
+      }
+    }
   }
 
-  private ensureProgramStep(stepIndex: number): void {
-    if (!this.activeProgram) return;
-    while (this.activeProgram.steps.length <= stepIndex) {
-      const index = this.activeProgram.steps.length;
-      const prev = index > 0 ? this.activeProgram.steps[index - 1] : null;
-      this.activeProgram.steps.push({
+  private advancePlayback(playback: Playback, elapsedMs: number): void {
+    if (!playback.program) return;
+    const state = playback.state;
+    this.trace("tick:begin", { state });
+    this.ensureProgramStep(playback, state.stepIndex);
+    const steps = playback.program.steps;
+
+    state.positionMs += elapsedMs;
+
+    while (state.isPlaying) {
+      const holdMs = stepHoldMs(steps[state.stepIndex], state.spm);
+      if (state.positionMs < holdMs) break;
+      state.positionMs -= holdMs;
+
+      const move = followingStep(state.direction, state.stepIndex, playback.pass, steps.length);
+      if (move.wrapped && this.endPass(playback, playback.program.id)) break;
+      playback.previousStepIndex = state.stepIndex;
+      state.stepIndex = move.stepIndex;
+      playback.pass = move.pass;
+      if (move.wrapped) playback.hasWrapped = true;
+      this.trackMove(playback, true);
+    }
+
+    this.trace("tick:end", { state });
+  }
+
+  // Queues the program end event for a finished pass; a one-shot stops and
+  // fades out. Returns whether the playback stopped.
+  private endPass(playback: Playback, programId: string): boolean {
+    const state = playback.state;
+    this.pendingProgramEnds.push({ playbackId: state.playbackId, programId, stopped: !state.loop });
+    if (state.loop) return false;
+    state.positionMs = 0;
+    state.isPlaying = false;
+    const fromValues = this.buildSequencerValues([...this.playingPlaybacks(), playback]);
+    this.beginModeTransition(this.getVisibleMixMode(), fromValues);
+    return true;
+  }
+
+  private ensureProgramStep(playback: Playback, stepIndex: number): void {
+    const program = playback.program;
+    if (!program) return;
+    while (program.steps.length <= stepIndex) {
+      const index = program.steps.length;
+      const prev = index > 0 ? program.steps[index - 1] : null;
+      program.steps.push({
         id: `step-${index + 1}`,
         durationMs: prev?.durationMs ?? 500,
         fadeMs: prev?.fadeMs ?? 300,
+        ...(prev?.easing ? { easing: prev.easing } : {}),
         frames: [],
       });
     }
   }
 
-  private beginModeTransition(toMode: VisibleMixMode, fromValues: LayerValueMap): void {
+  private beginModeTransition(
+    toMode: VisibleMixMode,
+    fromValues: LayerValueMap,
+    easing?: StepEasing,
+    durationMs = MODE_SWITCH_FADE_MS,
+  ): void {
     this.mixTransition = {
       startedAtMs: performance.now(),
       fromValues: cloneLayerValues(fromValues),
       toMode,
+      easing,
+      durationMs: Math.max(0, durationMs),
     };
-    if (this.state.isPlaying) {
+    if (this.needsClock()) {
       this.stopMixTimer();
     } else {
       this.startMixTimer();
@@ -449,8 +942,12 @@ export class Sequencer {
     this.trace("beginModeTransition", { toMode, keys: Object.keys(fromValues) });
   }
 
+  private currentStepEasing(playback: Playback): StepEasing | undefined {
+    return playback.program?.steps[playback.state.stepIndex]?.easing;
+  }
+
   private getVisibleMixMode(): VisibleMixMode {
-    return this.state.isPlaying && this.activeProgram && this.activeProgram.steps.length > 0 ? "sequencer" : "static";
+    return this.isAnyPlaying() ? "sequencer" : "static";
   }
 
   private captureVisibleValues(): LayerValueMap {
@@ -458,33 +955,96 @@ export class Sequencer {
     return cloneLayerValues(frame.values);
   }
 
-  private setLayerAKey(key: string, value: FeatureValue): boolean {
+  // Re-sending a key's target keeps a running fade; a cut (no fadeMs) on a
+  // fading key snaps it to the target.
+  private setLayerAKey(key: string, value: FeatureValue, fadeMs = 0): boolean {
     const normalized = asArray(value).map((item) => clampChannel(item));
     if (isZeroValue(normalized)) {
-      return this.clearLayerAKey(key);
+      return this.clearLayerAKey(key, fadeMs);
     }
-    if (valuesEqual(this.layerAValues[key], normalized)) return false;
+    const snapsFade = fadeMs <= 0 && this.layerAFades.has(key);
+    if (valuesEqual(this.layerAValues[key], normalized) && !snapsFade) return false;
+    this.beginLayerAFade(key, fadeMs);
     this.layerAValues[key] = normalized;
     return true;
   }
 
-  private clearLayerAKey(key: string): boolean {
-    if (!(key in this.layerAValues)) return false;
+  private clearLayerAKey(key: string, fadeMs = 0): boolean {
+    if (!(key in this.layerAValues)) {
+      if (fadeMs > 0 || !this.layerAFades.has(key)) return false;
+      this.layerAFades.delete(key);
+      return true;
+    }
+    this.beginLayerAFade(key, fadeMs);
     delete this.layerAValues[key];
     return true;
   }
 
-  private clearLayerAFixtureKeys(fixtureId: string): boolean {
+  private clearLayerAFixtureKeys(fixtureId: string, fadeMs = 0): boolean {
     let changed = false;
     const prefix = `${fixtureId}:`;
-    for (const key of Object.keys(this.layerAValues)) {
+    const keys = new Set([...Object.keys(this.layerAValues), ...this.layerAFades.keys()]);
+    for (const key of keys) {
       if (!key.startsWith(prefix)) continue;
-      delete this.layerAValues[key];
-      changed = true;
+      changed = this.clearLayerAKey(key, fadeMs) || changed;
     }
     return changed;
   }
 
+  // Must run before the key's target changes: the fade starts from whatever
+  // the key currently shows, including a fade still in progress.
+  private beginLayerAFade(key: string, fadeMs: number): void {
+    if (!(fadeMs > 0)) {
+      this.layerAFades.delete(key);
+      return;
+    }
+    const nowMs = performance.now();
+    this.layerAFades.set(key, {
+      fromValues: this.fadedLayerAValue(key, nowMs) ?? [0],
+      startedAtMs: nowMs,
+      durationMs: fadeMs,
+    });
+  }
+
+  private startLayerAFadeClock(): void {
+    if (this.layerAFades.size > 0) this.startTimer();
+  }
+
+  private pruneLayerAFades(nowMs: number): void {
+    for (const [key, fade] of this.layerAFades.entries()) {
+      if (nowMs - fade.startedAtMs >= fade.durationMs) this.layerAFades.delete(key);
+    }
+  }
+
+  private fadedLayerAValue(key: string, nowMs: number): number[] | undefined {
+    const target = this.layerAValues[key];
+    const fade = this.layerAFades.get(key);
+    if (!fade) return target ? [...target] : undefined;
+    const ratio = clamp01((nowMs - fade.startedAtMs) / fade.durationMs);
+    const to = target ?? [0];
+    const length = Math.max(fade.fromValues.length, to.length);
+    const out: number[] = [];
+    for (let i = 0; i < length; i += 1) {
+      const fromValue = fade.fromValues[i] ?? fade.fromValues[0] ?? 0;
+      const toValue = to[i] ?? to[0] ?? 0;
+      out.push(clampChannel(interpolateEased(fromValue, toValue, ratio, undefined)));
+    }
+    return out;
+  }
+
+  // Layer A as it currently shows, with running per-key fades applied.
+  private buildFadedLayerAValues(): LayerValueMap {
+    if (this.layerAFades.size === 0) return cloneLayerValues(this.layerAValues);
+    const nowMs = performance.now();
+    const values: LayerValueMap = {};
+    const keys = new Set([...Object.keys(this.layerAValues), ...this.layerAFades.keys()]);
+    for (const key of keys) {
+      const value = this.fadedLayerAValue(key, nowMs);
+      if (value && !isZeroValue(value)) values[key] = value;
+    }
+    return values;
+  }
+
   private emitFrame(): void {
     const frame = this.buildFrame();
     this.trace("emitFrame", {
@@ -500,8 +1060,14 @@ export class Sequencer {
   private buildFrame(): SequencerFrame {
     const layerAValues = cloneLayerValues(this.layerAValues);
     const layerBValues = this.buildSequencerValues();
+    const renderedEffects = [...this.effects.values()].map((effect) => ({
+      mergeMode: effect.definition.mergeMode ?? "htp",
+      values: this.isBlackout ? {} : renderEffect(effect.definition, effect.targets, effect.phase),
+    }));
     const targetMode = this.getVisibleMixMode();
-    const targetValues = targetMode === "sequencer" ? layerBValues : layerAValues;
+    const baseValues = targetMode === "sequencer" ? layerBValues : this.buildFadedLayerAValues();
+    const inputLayers = this.isBlackout ? [] : [...this.inputs.values()];
+    const targetValues = this.composeInputs(this.composeEffects(baseValues, renderedEffects), inputLayers);
     const values = this.buildVisibleValues(targetMode, targetValues);
 
     return {
@@ -509,44 +1075,114 @@ export class Sequencer {
       values,
       layerAValues,
       layerBValues,
-      state: { ...this.state },
+      effectValues: this.composeEffects({}, renderedEffects),
+      inputValues: this.composeInputs({}, inputLayers),
+      state: this.getState(),
+      playbacks: this.getPlaybackStates(),
+      effects: [...this.effects.values()].map((effect) => effect.definition),
     };
   }
 
-  private buildSequencerValues(): LayerValueMap {
-    if (!this.activeProgram || this.activeProgram.steps.length === 0) {
-      return {};
+  // Effects sit on top of whichever layer is visible, in start order.
+  private composeEffects(
+    baseValues: LayerValueMap,
+    renderedEffects: Array<{ mergeMode: PlaybackMergeMode; values: LayerValueMap }>,
+  ): LayerValueMap {
+    if (renderedEffects.length === 0) return baseValues;
+    const merged = cloneLayerValues(baseValues);
+    for (const effect of renderedEffects) {
+      mergeLayerValues(merged, effect.values, effect.mergeMode);
+    }
+    const composed: LayerValueMap = {};
+    for (const [key, values] of Object.entries(merged)) {
+      if (!isZeroValue(values)) composed[key] = values;
     }
+    return composed;
+  }
 
-    const steps = this.activeProgram.steps;
-    const currentStep = steps[this.state.stepIndex];
-    const atProgramStartBoundary = this.state.stepIndex === 0 && this.state.positionMs <= 0;
-    const useLoopedPrevious = this.state.loop && !(this.state.isPlaying && atProgramStartBoundary);
-    const previousIndex = this.state.stepIndex > 0
-      ? this.state.stepIndex - 1
-      : useLoopedPrevious
-        ? steps.length - 1
-        : 0;
-    const previousStep = steps[previousIndex];
+  // Inputs merge against the internal output as a whole. The internal side
+  // ranks at the highest playing playback's priority (0 when static); on a
+  // tie the input wins.
+  private composeInputs(outputValues: LayerValueMap, inputLayers: InputLayer[]): LayerValueMap {
+    if (inputLayers.length === 0) return outputValues;
+    const outputPriority = Math.max(0, ...this.playingPlaybacks().map((playback) => playback.state.priority));
+    const sources = [
+      { values: outputValues, priority: outputPriority, mergeMode: "ltp" as PlaybackMergeMode },
+      ...inputLayers,
+    ].sort((left, right) => left.priority - right.priority);
+
+    const merged: LayerValueMap = {};
+    for (const source of sources) {
+      mergeLayerValues(merged, source.values, source.mergeMode);
+    }
+    const composed: LayerValueMap = {};
+    for (const [key, values] of Object.entries(merged)) {
+      if (!isZeroValue(values)) composed[key] = values;
+    }
+    return composed;
+  }
+
+  // Layer B is the merge of every playing playback, applied in priority order
+  // (ties go to the most recently started playback). With nothing playing it
+  // falls back to all playbacks so paused programs still report their values.
+  private buildSequencerValues(playbacks?: Playback[]): LayerValueMap {
+    const playing = this.playingPlaybacks();
+    const sources = playbacks ?? (playing.length > 0 ? playing : [...this.playbacks.values()]);
+    const ordered = [...sources].sort(
+      (left, right) => left.state.priority - right.state.priority || left.activatedAt - right.activatedAt,
+    );
+
+    const merged: LayerValueMap = {};
+    for (const playback of ordered) {
+      mergeLayerValues(merged, this.buildPlaybackValues(playback), playback.state.mergeMode);
+    }
 
-    const currentMap = new Map<string, number[]>();
-    for (const frame of currentStep.frames) {
-      currentMap.set(frameKey(frame.fixtureId, frame.featureId), asArray(frame.value));
+    const layerBValues: LayerValueMap = {};
+    for (const [key, values] of Object.entries(merged)) {
+      if (!isZeroValue(values)) layerBValues[key] = values;
     }
+    return layerBValues;
+  }
 
-    const prevMap = new Map<string, number[]>();
-    for (const frame of previousStep.frames) {
-      prevMap.set(frameKey(frame.fixtureId, frame.featureId), asArray(frame.value));
+  // Zero-valued features are kept here so an LTP playback can pull a feature
+  // down that a lower-priority playback is driving.
+  private buildPlaybackValues(playback: Playback): LayerValueMap {
+    const program = playback.program;
+    if (!program || program.steps.length === 0) {
+      return {};
     }
 
-    const keys = new Set([...currentMap.keys(), ...prevMap.keys()]);
-    const fadeRatio = this.state.isPlaying
+    const state = playback.state;
+    const steps = program.steps;
+    const currentStep = steps[state.stepIndex];
+    const atProgramStartBoundary = state.stepIndex === 0 && state.positionMs <= 0;
+    const useLoopedPrevious = state.loop && !(state.isPlaying && atProgramStartBoundary);
+    const forwardPreviousIndex = state.stepIndex > 0
+      ? state.stepIndex - 1
+      : useLoopedPrevious
+        ? steps.length - 1
+        : 0;
+    const previousIndex = state.direction === "forward"
+      ? forwardPreviousIndex
+      : Math.min(playback.previousStepIndex ?? state.stepIndex, steps.length - 1);
+    const playOrderTracking = program.tracking && state.direction !== "forward";
+    const wrap = state.loop && playback.hasWrapped;
+    const currentMap = playOrderTracking ? playback.tracked : stepValueMap(program, state.stepIndex, wrap);
+    const prevMap = playOrderTracking ? playback.previousTracked : stepValueMap(program, previousIndex, wrap);
+
+    const fixtureMask = state.fixtureIds ? new Set(state.fixtureIds) : null;
+    const keys = new Set(
+      [...currentMap.keys(), ...prevMap.keys()].filter(
+        (key) => !fixtureMask || fixtureMask.has(key.split(":")[0]),
+      ),
+    );
+    const fadeRatio = state.isPlaying
       ? currentStep.fadeMs > 0
-        ? clamp01(this.state.positionMs / currentStep.fadeMs)
+        ? clamp01(state.positionMs / currentStep.fadeMs)
         : 1
       : 1;
 
-    const layerBValues: LayerValueMap = {};
+    const values: LayerValueMap = {};
     for (const key of keys) {
       const from = prevMap.get(key) ?? [0];
       const to = currentMap.get(key) ?? [0];
@@ -557,14 +1193,15 @@ export class Sequencer {
         const fromValue = from[i] ?? 0;
         const toValue = to[i] ?? 0;
         out.push(
-          this.state.isBlackout ? 0 : Math.round(fromValue + (toValue - fromValue) * fadeRatio),
+          // Cubic-bezier easings may overshoot either end of the fade.
+          this.isBlackout ? 0 : clampChannel(interpolateEased(fromValue, toValue, fadeRatio, currentStep.easing)),
         );
       }
 
-      if (!isZeroValue(out)) layerBValues[key] = out;
+      values[key] = out;
     }
 
-    return layerBValues;
+    return values;
   }
 
   private buildVisibleValues(targetMode: VisibleMixMode, targetValues: LayerValueMap): LayerValueMap {
@@ -573,8 +1210,10 @@ export class Sequencer {
       return cloneLayerValues(targetValues);
     }
 
-    const progress = clamp01((performance.now() - transition.startedAtMs) / MODE_SWITCH_FADE_MS);
-    const values = interpolateLayerValues(transition.fromValues, targetValues, progress);
+    const progress = transition.durationMs > 0
+      ? clamp01((performance.now() - transition.startedAtMs) / transition.durationMs)
+      : 1;
+    const values = interpolateLayerValues(transition.fromValues, targetValues, progress, transition.easing);
     if (progress >= 1) {
       this.mixTransition = null;
       this.stopMixTimer();
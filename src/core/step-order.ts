@@ -0,0 +1,117 @@
+import type { PlaybackDirection } from "../config/types.js";
+
+export const PLAYBACK_DIRECTIONS: readonly PlaybackDirection[] = [
+  "forward",
+  "reverse",
+  "ping-pong",
+  "random",
+  "shuffle",
+];
+
+// Progress through one pass of a program: one run over its steps in the
+// playback's direction. A pass ends when the playhead leaves its last step.
+export type StepPass = {
+  // ping-pong: 1 on the way up, -1 on the way back.
+  heading: 1 | -1;
+  // shuffle: steps not yet played in this pass.
+  remaining: number[];
+  // random: steps played in this pass, the current one included.
+  played: number;
+};
+
+export type StepMove = {
+  stepIndex: number;
+  pass: StepPass;
+  // The move left the last step of a pass.
+  wrapped: boolean;
+};
+
+export function isPlaybackDirection(value: unknown): value is PlaybackDirection {
+  return (PLAYBACK_DIRECTIONS as readonly unknown[]).includes(value);
+}
+
+function randomIndex(count: number): number {
+  return Math.floor(Math.random() * count);
+}
+
+// Any step but `stepIndex`, when there is one.
+function randomOtherStep(stepIndex: number, stepCount: number): number {
+  if (stepCount <= 1) return 0;
+  const pick = randomIndex(stepCount - 1);
+  return pick >= stepIndex ? pick + 1 : pick;
+}
+
+function shuffledSteps(stepCount: number): number[] {
+  const steps = Array.from({ length: stepCount }, (_, index) => index);
+  for (let i = steps.length - 1; i > 0; i -= 1) {
+    const j = randomIndex(i + 1);
+    [steps[i], steps[j]] = [steps[j], steps[i]];
+  }
+  return steps;
+}
+
+export function firstStep(direction: PlaybackDirection, stepCount: number): StepMove {
+  const pass: StepPass = { heading: 1, remaining: [], played: 1 };
+  const lastIndex = Math.max(0, stepCount - 1);
+  switch (direction) {
+    case "reverse":
+      return { stepIndex: lastIndex, pass, wrapped: false };
+    case "random":
+      return { stepIndex: randomIndex(Math.max(1, stepCount)), pass, wrapped: false };
+    case "shuffle": {
+      const remaining = shuffledSteps(stepCount);
+      return { stepIndex: remaining.pop() ?? 0, pass: { ...pass, remaining }, wrapped: false };
+    }
+    default:
+      return { stepIndex: 0, pass, wrapped: false };
+  }
+}
+
+export function followingStep(
+  direction: PlaybackDirection,
+  stepIndex: number,
+  pass: StepPass,
+  stepCount: number,
+): StepMove {
+  const lastIndex = Math.max(0, stepCount - 1);
+  switch (direction) {
+    case "reverse":
+      return stepIndex <= 0
+        ? { stepIndex: lastIndex, pass, wrapped: true }
+        : { stepIndex: stepIndex - 1, pass, wrapped: false };
+    case "ping-pong": {
+      if (stepCount <= 1) return { stepIndex: 0, pass, wrapped: true };
+      // The pass ends back on the first step; end steps are not repeated.
+      const wrapped = stepIndex <= 0 && pass.heading === -1;
+      let heading = pass.heading;
+      if (stepIndex + heading < 0 || stepIndex + heading > lastIndex) heading = heading === 1 ? -1 : 1;
+      const next = Math.max(0, Math.min(lastIndex, stepIndex + heading));
+      return { stepIndex: next, pass: { ...pass, heading }, wrapped };
+    }
+    case "random": {
+      const wrapped = pass.played >= stepCount;
+      return {
+        stepIndex: randomOtherStep(stepIndex, stepCount),
+        pass: { ...pass, played: wrapped ? 1 : pass.played + 1 },
+        wrapped,
+      };
+    }
+    case "shuffle": {
+      const remaining = pass.remaining.filter((index) => index < stepCount && index !== stepIndex);
+      const wrapped = remaining.length === 0;
+      if (wrapped) {
+        remaining.push(...shuffledSteps(stepCount));
+        // A new pass never opens with the step that closed the last one.
+        const lastSlot = remaining.length - 1;
+        if (stepCount > 1 && remaining[lastSlot] === stepIndex) {
+          [remaining[0], remaining[lastSlot]] = [remaining[lastSlot], remaining[0]];
+        }
+      }
+      return { stepIndex: remaining.pop() ?? 0, pass: { ...pass, remaining }, wrapped };
+    }
+    default:
+      return stepIndex >= lastIndex
+        ? { stepIndex: 0, pass, wrapped: true }
+        : { stepIndex: stepIndex + 1, pass, wrapped: false };
+  }
+}
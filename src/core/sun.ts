@@ -0,0 +1,51 @@
+export type GeoLocation = {
+  latitude: number;
+  longitude: number;
+};
+
+const J2000 = 2451545;
+const UNIX_EPOCH_JULIAN = 2440587.5;
+const DAY_MS = 86_400_000;
+// Sun center 0.833° below the horizon: refraction plus the solar radius.
+const HORIZON_DEG = -0.833;
+const EARTH_TILT_DEG = 23.4397;
+
+const rad = (deg: number) => (deg * Math.PI) / 180;
+const deg = (value: number) => (value * 180) / Math.PI;
+
+function toJulian(date: Date): number {
+  return date.getTime() / DAY_MS + UNIX_EPOCH_JULIAN;
+}
+
+function fromJulian(julian: number): Date {
+  return new Date(Math.round((julian - UNIX_EPOCH_JULIAN) * DAY_MS));
+}
+
+// Sunrise and sunset for the local calendar day of `day`, from the sunrise
+// equation (accurate to about a minute). Null during polar day or night.
+export function sunTimes(day: Date, location: GeoLocation): { sunrise: Date | null; sunset: Date | null } {
+  const localNoon = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 12);
+  const cycle = Math.round(toJulian(localNoon) - J2000 + location.longitude / 360);
+  const meanNoon = cycle - location.longitude / 360;
+
+  const anomaly = (357.5291 + 0.98560028 * meanNoon) % 360;
+  const center = 1.9148 * Math.sin(rad(anomaly))
+    + 0.02 * Math.sin(rad(2 * anomaly))
+    + 0.0003 * Math.sin(rad(3 * anomaly));
+  const eclipticLongitude = (anomaly + center + 180 + 102.9372) % 360;
+  const transit = J2000 + meanNoon
+    + 0.0053 * Math.sin(rad(anomaly))
+    - 0.0069 * Math.sin(rad(2 * eclipticLongitude));
+
+  const declination = Math.asin(Math.sin(rad(eclipticLongitude)) * Math.sin(rad(EARTH_TILT_DEG)));
+  const latitude = rad(location.latitude);
+  const cosHourAngle = (Math.sin(rad(HORIZON_DEG)) - Math.sin(latitude) * Math.sin(declination))
+    / (Math.cos(latitude) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1) return { sunrise: null, sunset: null };
+
+  const hourAngle = deg(Math.acos(cosHourAngle));
+  return {
+    sunrise: fromJulian(transit - hourAngle / 360),
+    sunset: fromJulian(transit + hourAngle / 360),
+  };
+}
@@ -4,17 +4,31 @@ import Fastify from "fastify";
 import cors from "@fastify/cors";
 import websocket from "@fastify/websocket";
 import staticPlugin from "@fastify/static";
-import { loadRuntimeConfig } from "./config/load-config.js";
+import { loadPlaylists, loadRuntimeConfig, loadSchedules } from "./config/load-config.js";
+import { resolveLayerAValue, resolveProgramValues } from "./core/cct.js";
+import { ConfigStore } from "./core/config-store.js";
+import { featureMaxValue } from "./core/feature-values.js";
+import { analyzePatch, formatPatchIssue } from "./core/patch-analysis.js";
+import { PlaylistPlayer } from "./core/playlist-player.js";
+import { PlaylistStore } from "./core/playlist-store.js";
 import { ProgramStore } from "./core/program-store.js";
-import { Sequencer } from "./core/sequencer.js";
+import { ScheduleStore } from "./core/schedule-store.js";
+import { locationFromEnv, Scheduler } from "./core/scheduler.js";
+import { DEFAULT_PLAYBACK_ID, MODE_SWITCH_FADE_MS, Sequencer } from "./core/sequencer.js";
 import { Renderer } from "./core/renderer.js";
 import { buildRenderPacket } from "./core/render-packet.js";
+import { normalizeEffect, resolveEffectTargets } from "./core/effects.js";
 import { ArtnetOutput } from "./outputs/artnet-output.js";
+import { ArtnetDiscovery } from "./outputs/artnet-discovery.js";
 import { MqttOutput } from "./outputs/mqtt-output.js";
+import { SacnOutput } from "./outputs/sacn-output.js";
+import { ArtnetInput } from "./inputs/artnet-input.js";
+import { OscServer, parseFeedbackClients } from "./osc/server.js";
 import { registerRoutes } from "./api/routes.js";
+import { findFeature } from "./api/transport.js";
 import { WsHub } from "./ws/hub.js";
 import type { ClientEvent, ServerEvent } from "./ws/protocol.js";
-import type { RuntimeConfig } from "./config/types.js";
+import type { ProgramDefinition, RuntimeConfig } from "./config/types.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -50,6 +64,16 @@ function applyDefaultStaticPanelValues(config: RuntimeConfig, sequencer: Sequenc
   sequencer.applyLayerABatch(panelOperations);
 }
 
+// An explicit time wins over the program's, then the environment's; without
+// any, a switch blends like play/pause does.
+function programCrossfadeMs(config: RuntimeConfig, program: ProgramDefinition, requestedMs?: number): number {
+  const environment = config.environments.find((item) => item.id === program.environmentId);
+  const requested = requestedMs !== undefined && Number.isFinite(requestedMs) && requestedMs >= 0
+    ? requestedMs
+    : undefined;
+  return requested ?? program.crossfadeMs ?? environment?.programCrossfadeMs ?? MODE_SWITCH_FADE_MS;
+}
+
 async function buildServer() {
   const config = await loadRuntimeConfig();
   const debug = process.env.CHASER_DEBUG === "1";
@@ -61,140 +85,360 @@ async function buildServer() {
     root: resolve(__dirname, "..", "public"),
   });
 
+  for (const environment of config.environments) {
+    for (const issue of analyzePatch(environment, config.fixtures).issues) {
+      app.log.warn({ environmentId: environment.id, issue }, `Patch: ${formatPatchIssue(issue)}`);
+    }
+  }
+
   const programStore = new ProgramStore(config.programs);
+  const configStore = new ConfigStore(config);
+  const playlistStore = new PlaylistStore(await loadPlaylists());
+  const scheduleStore = new ScheduleStore(await loadSchedules());
+  const location = locationFromEnv();
+  if (!location && (process.env.CHASER_LATITUDE || process.env.CHASER_LONGITUDE)) {
+    app.log.warn("CHASER_LATITUDE/CHASER_LONGITUDE are invalid; sun schedules will not fire");
+  }
   const sequencer = new Sequencer();
   const wsHub = new WsHub();
 
-  const applyProgram = (programId: string): void => {
+  for (const environment of config.environments) {
+    for (const playback of environment.playbacks ?? []) {
+      sequencer.configurePlayback(playback.id, playback);
+    }
+  }
+
+  const applyProgram = (programId: string, playbackId = DEFAULT_PLAYBACK_ID, crossfadeMs?: number): void => {
     const program = programStore.get(programId);
     if (!program) return;
-    const currentState = sequencer.getState();
+    const currentState = sequencer.getState(playbackId);
     const preserveTransport = currentState.isPlaying && currentState.stepIndex < program.steps.length;
-    sequencer.setProgram(program, {
+    sequencer.setProgram(resolveProgramValues(program, config), {
       preservePlayhead: preserveTransport,
       preserveTempo: true,
+      playbackId,
+      crossfadeMs: programCrossfadeMs(config, program, crossfadeMs),
     });
     const environment = config.environments.find((item) => item.id === program.environmentId);
     sequencer.setFrameRate(environment?.renderFps ?? 30);
   };
 
-  const renderer = new Renderer([
-    new ArtnetOutput(),
-    new MqttOutput(config, {
-      setLayerAValue: (fixtureId, featureId, value) => sequencer.setLayerAValue(fixtureId, featureId, value),
-      clearLayerAFeature: (fixtureId, featureId) => sequencer.clearLayerAFeature(fixtureId, featureId),
-      clearLayerAFixture: (fixtureId) => sequencer.clearLayerAFixture(fixtureId),
-      applyLayerABatch: (operations) => sequencer.applyLayerABatch(operations),
-      setSpm: (spm) => sequencer.setSpm(spm),
-      setBlackout: (enabled) => sequencer.setBlackout(enabled),
-      pause: () => sequencer.pause(),
-      playFromStart: () => {
-        sequencer.setStep(0);
-        sequencer.resume();
-      },
-      triggerProgram: (programId) => {
-        const program = programStore.get(programId);
-        if (!program) return;
-        const currentState = sequencer.getState();
-        if (!currentState.isPlaying) {
-          sequencer.setSpm(program.spm);
-        }
-        applyProgram(programId);
-        sequencer.setStep(0);
-        sequencer.resume();
-      },
-      listPrograms: () => programStore.list(),
-    }),
-  ]);
+  // Loads a program and plays it from its first step with the program switch
+  // crossfade.
+  const playProgramFromStart = (
+    program: ProgramDefinition,
+    playbackId: string,
+    options?: { crossfadeMs?: number; preserveTempo?: boolean },
+  ): void => {
+    sequencer.setProgram(resolveProgramValues(program, config), {
+      playbackId,
+      preserveTempo: options?.preserveTempo,
+      crossfadeMs: programCrossfadeMs(config, program, options?.crossfadeMs),
+      play: true,
+    });
+    const environment = config.environments.find((item) => item.id === program.environmentId);
+    sequencer.setFrameRate(environment?.renderFps ?? 30);
+  };
 
+  const playlistPlayer = new PlaylistPlayer(playlistStore, (programId, playbackId, crossfadeMs) => {
+    const program = programStore.get(programId);
+    if (!program) return false;
+    playProgramFromStart(program, playbackId, { crossfadeMs });
+    return true;
+  });
+  sequencer.subscribeProgramEnd((event) => playlistPlayer.handleProgramEnd(event));
+
+  // Effects run in the environment of the playback they sync to unless they
+  // name one explicitly.
+  const startEffect = (input: unknown): void => {
+    const effect = normalizeEffect(input);
+    if (!effect) return;
+    const playbackProgramId = sequencer.getProgramId(effect.playbackId ?? DEFAULT_PLAYBACK_ID);
+    const environmentId = effect.environmentId
+      ?? (playbackProgramId ? programStore.get(playbackProgramId)?.environmentId : undefined);
+    const environment = config.environments.find((item) => item.id === environmentId)
+      ?? config.environments[0];
+    if (!environment) return;
+    sequencer.startEffect(effect, resolveEffectTargets(effect, environment, config.fixtures));
+  };
+
+  const artnetDiscovery = new ArtnetDiscovery();
+  if (process.env.CHASER_ARTNET_DISCOVERY !== "0") {
+    artnetDiscovery.start();
+  }
+  const artnetInput = new ArtnetInput(config, artnetDiscovery, {
+    setInputValues: (inputId, values, options) => sequencer.setInputValues(inputId, values, options),
+    releaseInput: (inputId, fadeMs) => sequencer.releaseInput(inputId, fadeMs),
+  });
+  artnetInput.start();
+
+  const mqttOutput = new MqttOutput(config, {
+    setLayerAValue: (fixtureId, featureId, value) => sequencer.setLayerAValue(fixtureId, featureId, value),
+    clearLayerAFeature: (fixtureId, featureId) => sequencer.clearLayerAFeature(fixtureId, featureId),
+    clearLayerAFixture: (fixtureId) => sequencer.clearLayerAFixture(fixtureId),
+    applyLayerABatch: (operations) => sequencer.applyLayerABatch(operations),
+    setSpm: (spm, playbackId) => sequencer.setSpm(spm, playbackId),
+    setBlackout: (enabled) => sequencer.setBlackout(enabled),
+    setLoop: (enabled, playbackId) => sequencer.setLoop(enabled, playbackId),
+    setDirection: (direction, playbackId) => sequencer.setDirection(direction, playbackId),
+    setStep: (stepIndex, playbackId) => sequencer.setStep(stepIndex, playbackId),
+    pause: (playbackId) => sequencer.pause(playbackId),
+    playFromStart: (playbackId) => {
+      sequencer.setStep(0, playbackId);
+      sequencer.resume(playbackId);
+    },
+    triggerProgram: (programId, playbackId = DEFAULT_PLAYBACK_ID) => {
+      const program = programStore.get(programId);
+      if (!program) return;
+      playlistPlayer.stop(playbackId);
+      // A running playback keeps its tempo.
+      playProgramFromStart(program, playbackId, { preserveTempo: sequencer.getState(playbackId).isPlaying });
+    },
+    configurePlayback: (playbackId, options) => sequencer.configurePlayback(playbackId, options),
+    listPrograms: () => programStore.list(),
+    getProgramId: (playbackId) => sequencer.getProgramId(playbackId),
+    listPlaylists: () => playlistStore.list(),
+    startPlaylist: (playlistId, playbackId) => playlistPlayer.start(playlistId, playbackId),
+    stopPlaylist: (playbackId) => playlistPlayer.stop(playbackId),
+    getPlaylistId: (playbackId) => playlistPlayer.getPlaylistId(playbackId),
+  });
+
+  const sacnOutput = new SacnOutput();
+  const renderer = new Renderer([new ArtnetOutput(artnetDiscovery), sacnOutput, mqttOutput]);
+
+  let renderedEnvironmentIds = new Set<string>();
   sequencer.subscribe((frame) => {
     wsHub.broadcast({ type: "frame", payload: frame });
 
-    const programId = frame.state.programId;
-    if (!programId) return;
-    const program = programStore.get(programId);
-    if (!program) return;
+    // Playbacks can run programs from different environments; each one gets
+    // its own packet built from the same merged frame. Effects, inputs and
+    // Layer A can drive an environment that has no program loaded.
+    const environmentIds = new Set<string>();
+    for (const playback of frame.playbacks) {
+      const program = playback.programId ? programStore.get(playback.programId) : undefined;
+      if (program) environmentIds.add(program.environmentId);
+    }
+    const fixtureIds = new Set(
+      [...Object.keys(frame.values), ...Object.keys(frame.layerAValues)].map((key) => key.split(":")[0]),
+    );
+    if (fixtureIds.size > 0) {
+      for (const environment of config.environments) {
+        if (environment.fixtures.some((fixture) => fixtureIds.has(fixture.id))) environmentIds.add(environment.id);
+      }
+    }
+    // An environment that just lost its last source is rendered once more so
+    // its outputs settle instead of repeating the last frame.
+    const settlingIds = [...renderedEnvironmentIds].filter((environmentId) => !environmentIds.has(environmentId));
+    renderedEnvironmentIds = new Set(environmentIds);
+    for (const environmentId of settlingIds) environmentIds.add(environmentId);
 
-    const packet = buildRenderPacket(frame, config, program.environmentId);
-    if (!packet) return;
-    if (debug) {
-      const universeSummary = Object.entries(packet.dmxByUniverse).map(([universe, dmx]) => {
-        let nonZero = 0;
-        let checksum = 0;
-        const sample: Array<{ address: number; value: number }> = [];
-        for (let i = 0; i < dmx.length; i += 1) if (dmx[i] > 0) nonZero += 1;
-        for (let i = 0; i < dmx.length; i += 1) {
-          const value = dmx[i];
-          checksum = (checksum + (i + 1) * value) % 1000000007;
-          if (value > 0 && sample.length < 12) {
-            sample.push({ address: i + 1, value });
+    for (const environmentId of environmentIds) {
+      const packet = buildRenderPacket(frame, config, environmentId);
+      if (!packet) continue;
+      if (debug) {
+        const universeSummary = Object.entries(packet.dmxByUniverse).map(([universe, dmx]) => {
+          let nonZero = 0;
+          let checksum = 0;
+          const sample: Array<{ address: number; value: number }> = [];
+          for (let i = 0; i < dmx.length; i += 1) if (dmx[i] > 0) nonZero += 1;
+          for (let i = 0; i < dmx.length; i += 1) {
+            const value = dmx[i];
+            checksum = (checksum + (i + 1) * value) % 1000000007;
+            if (value > 0 && sample.length < 12) {
+              sample.push({ address: i + 1, value });
+            }
           }
-        }
-        return { universe: Number(universe), nonZero, checksum, sample };
+          return { universe: Number(universe), nonZero, checksum, sample };
+        });
+        app.log.info(
+          {
+            tag: "sync-debug",
+            phase: "render-packet",
+            environmentId,
+            stepIndex: frame.state.stepIndex,
+            universeSummary,
+          },
+          "Render packet built",
+        );
+      }
+      renderer.render(packet);
+    }
+  });
+
+  app.addHook("onClose", async () => {
+    artnetInput.close();
+    await renderer.close();
+    await artnetDiscovery.close();
+  });
+
+  // WebSocket, REST and OSC clients drive the same operations.
+  const handleClientEvent = (event: ClientEvent): void => {
+    switch (event.type) {
+      case "play":
+        sequencer.play(event.payload?.playbackId);
+        break;
+      case "pause":
+        sequencer.pause(event.payload?.playbackId);
+        break;
+      case "next":
+        sequencer.nextStep(event.payload?.playbackId);
+        break;
+      case "previous":
+        sequencer.previousStep(event.payload?.playbackId);
+        break;
+      case "seek":
+        sequencer.setStep(event.payload.stepIndex, event.payload.playbackId);
+        break;
+      case "blackout":
+        sequencer.setBlackout(event.payload.enabled);
+        break;
+      case "tempo":
+        sequencer.setSpm(event.payload.spm, event.payload.playbackId);
+        break;
+      case "loop":
+        sequencer.setLoop(event.payload.enabled, event.payload.playbackId);
+        break;
+      case "direction":
+        sequencer.setDirection(event.payload.direction, event.payload.playbackId);
+        break;
+      case "program": {
+        // Picking a program by hand takes the playback away from its playlist.
+        playlistPlayer.stop(event.payload.playbackId);
+        applyProgram(event.payload.programId, event.payload.playbackId, event.payload.crossfadeMs);
+        break;
+      }
+      case "playlistStart":
+        playlistPlayer.start(event.payload.playlistId, event.payload.playbackId);
+        break;
+      case "playlistStop":
+        playlistPlayer.stop(event.payload?.playbackId);
+        break;
+      case "playlistNext":
+        playlistPlayer.next(event.payload?.playbackId);
+        break;
+      case "playbackConfigure":
+        sequencer.configurePlayback(event.payload.playbackId, event.payload);
+        break;
+      case "playbackRemove":
+        playlistPlayer.stop(event.payload.playbackId);
+        sequencer.removePlayback(event.payload.playbackId);
+        break;
+      case "effectStart":
+        startEffect(event.payload);
+        break;
+      case "effectStop":
+        sequencer.stopEffect(event.payload.effectId);
+        break;
+      case "layerASet": {
+        const value = resolveLayerAValue(
+          config,
+          event.payload.fixtureId,
+          event.payload.featureId,
+          event.payload.value,
+        );
+        if (value === null) break;
+        sequencer.setLayerAValue(event.payload.fixtureId, event.payload.featureId, value, event.payload.fadeMs);
+        break;
+      }
+      case "layerAClearFeature":
+        sequencer.clearLayerAFeature(event.payload.fixtureId, event.payload.featureId, event.payload.fadeMs);
+        break;
+      case "layerAClearFixture":
+        sequencer.clearLayerAFixture(event.payload.fixtureId, event.payload.fadeMs);
+        break;
+    }
+  };
+
+  configStore.subscribe(() => {
+    for (const environment of config.environments) {
+      for (const playback of environment.playbacks ?? []) {
+        sequencer.configurePlayback(playback.id, playback);
+      }
+    }
+    // Kelvin frames depend on fixture calibration, so loaded programs are
+    // resolved again.
+    for (const state of sequencer.getPlaybackStates()) {
+      const program = state.programId ? programStore.get(state.programId) : undefined;
+      if (!program) continue;
+      sequencer.setProgram(resolveProgramValues(program, config), {
+        preservePlayhead: true,
+        suppressEmit: true,
+        preserveTempo: true,
+        playbackId: state.playbackId,
       });
-      app.log.info(
-        {
-          tag: "sync-debug",
-          phase: "render-packet",
-          programId,
-          stepIndex: frame.state.stepIndex,
-          universeSummary,
-        },
-        "Render packet built",
-      );
+      sequencer.applyStateSnapshot(state, state.playbackId);
     }
-    renderer.render(packet);
+    mqttOutput.reloadConfig();
+    sacnOutput.reloadConfig(config.environments);
+    artnetInput.reload();
+    sequencer.refresh();
   });
 
-  await registerRoutes(app, { config, programStore, sequencer, wsHub });
+  playlistStore.subscribe(() => playlistPlayer.reload());
+  playlistPlayer.subscribe(() => {
+    wsHub.broadcast({ type: "playlistState", payload: playlistPlayer.getStates() });
+  });
+  app.addHook("onClose", async () => {
+    playlistPlayer.close();
+  });
+
+  const scheduler = new Scheduler(scheduleStore, location, handleClientEvent);
+  scheduleStore.subscribe(() => scheduler.reload());
+  app.addHook("onClose", async () => {
+    scheduler.stop();
+  });
+
+  await registerRoutes(app, {
+    config,
+    programStore,
+    configStore,
+    playlistStore,
+    playlistPlayer,
+    scheduleStore,
+    scheduler,
+    location,
+    sequencer,
+    wsHub,
+    artnetDiscovery,
+    handleClientEvent,
+  });
+
+  const oscServer = process.env.CHASER_OSC !== "0"
+    ? new OscServer(
+      Number(process.env.CHASER_OSC_PORT ?? 9000),
+      handleClientEvent,
+      {
+        stepCount: (playbackId) => {
+          const programId = sequencer.getProgramId(playbackId);
+          return (programId ? programStore.get(programId)?.steps.length : undefined) ?? 0;
+        },
+        featureMaxValue: (fixtureId, featureId) => {
+          const feature = findFeature(config, fixtureId, featureId);
+          return feature ? featureMaxValue(feature) : null;
+        },
+      },
+      parseFeedbackClients(process.env.CHASER_OSC_FEEDBACK),
+    )
+    : null;
+  if (oscServer) {
+    oscServer.start();
+    sequencer.subscribe((frame) => oscServer.sendFeedback(frame));
+    app.addHook("onClose", async () => {
+      await oscServer.close();
+    });
+  }
 
   app.get("/ws", { websocket: true }, (connection) => {
     wsHub.addClient(connection, (event: ClientEvent) => {
-      switch (event.type) {
-        case "play":
-          sequencer.play();
-          break;
-        case "pause":
-          sequencer.pause();
-          break;
-        case "next":
-          sequencer.nextStep();
-          break;
-        case "previous":
-          sequencer.previousStep();
-          break;
-        case "seek":
-          sequencer.setStep(event.payload.stepIndex);
-          break;
-        case "blackout":
-          sequencer.setBlackout(event.payload.enabled);
-          break;
-        case "tempo":
-          sequencer.setSpm(event.payload.spm);
-          break;
-        case "loop":
-          sequencer.setLoop(event.payload.enabled);
-          break;
-        case "program": {
-          applyProgram(event.payload.programId);
-          break;
-        }
-        case "layerASet":
-          sequencer.setLayerAValue(event.payload.fixtureId, event.payload.featureId, event.payload.value);
-          break;
-        case "layerAClearFeature":
-          sequencer.clearLayerAFeature(event.payload.fixtureId, event.payload.featureId);
-          break;
-        case "layerAClearFixture":
-          sequencer.clearLayerAFixture(event.payload.fixtureId);
-          break;
-      }
+      handleClientEvent(event);
       if (debug) {
         app.log.info({ tag: "ws-debug", event }, "Handled WS client event");
       }
     });
 
     wsHub.broadcast({ type: "programs", payload: programStore.list() });
+    wsHub.broadcast({ type: "playlists", payload: playlistStore.list() });
+    wsHub.broadcast({ type: "playlistState", payload: playlistPlayer.getStates() });
     wsHub.broadcast({
       type: "config",
       payload: { fixtures: config.fixtures, environments: config.environments },
@@ -210,6 +454,7 @@ async function buildServer() {
     applyProgram(defaultProgram.id);
   }
   applyDefaultStaticPanelValues(config, sequencer);
+  scheduler.start();
 
   app.get("/", async (_, reply) => {
     return reply.sendFile("index.html");
@@ -221,3 +466,11 @@ async function buildServer() {
 const port = Number(process.env.PORT ?? 3000);
 const app = await buildServer();
 await app.listen({ port, host: "0.0.0.0" });
+
+// Close outputs on shutdown so streaming protocols can say goodbye
+// (sACN stream termination) instead of timing out on receivers.
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, () => {
+    void app.close().finally(() => process.exit(0));
+  });
+}
@@ -0,0 +1,156 @@
+import type dgram from "node:dgram";
+import { readFeatureValues } from "../core/render-packet.js";
+import { resolvePortAddress } from "../outputs/artnet-output.js";
+import type { InputLayerOptions } from "../core/sequencer.js";
+import type { ArtnetDiscovery } from "../outputs/artnet-discovery.js";
+import type {
+  EnvironmentDefinition,
+  InputDefinition,
+  RuntimeConfig,
+} from "../config/types.js";
+
+const OP_DMX = 0x5000;
+const ARTNET_ID = "Art-Net\0";
+const DEFAULT_TIMEOUT_MS = 3000;
+const WATCHDOG_MS = 250;
+
+export type InputLayerApi = {
+  setInputValues: (inputId: string, values: Record<string, number[]>, options: InputLayerOptions) => void;
+  releaseInput: (inputId: string, fadeMs?: number) => void;
+};
+
+type UniverseBinding = {
+  input: InputDefinition;
+  environment: EnvironmentDefinition;
+  universe: number;
+};
+
+type ActiveInput = {
+  input: InputDefinition;
+  valuesByUniverse: Map<number, Record<string, number[]>>;
+  lastSeenAt: number;
+};
+
+export function parseArtDmx(buffer: Buffer): { portAddress: number; dmx: Uint8Array } | null {
+  if (buffer.length < 18) return null;
+  if (buffer.toString("ascii", 0, 8) !== ARTNET_ID) return null;
+  if (buffer.readUInt16LE(8) !== OP_DMX) return null;
+  const length = Math.min(512, buffer.readUInt16BE(16), buffer.length - 18);
+  return {
+    portAddress: buffer.readUInt16LE(14) & 0x7fff,
+    dmx: Uint8Array.from(buffer.subarray(18, 18 + length)),
+  };
+}
+
+// Listens for ArtDmx from an external console and feeds it to the sequencer
+// as an input layer. An input that stops sending for `timeoutMs` is released
+// and fades back to internal control.
+export class ArtnetInput {
+  private debug = process.env.CHASER_DEBUG === "1";
+  private bindings = new Map<number, UniverseBinding[]>();
+  private active = new Map<string, ActiveInput>();
+  private unsubscribe: (() => void) | null = null;
+  private watchdog: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly config: RuntimeConfig,
+    private readonly discovery: ArtnetDiscovery,
+    private readonly api: InputLayerApi,
+  ) {
+    this.rebuildBindings();
+  }
+
+  start(): void {
+    if (this.bindings.size === 0 || this.unsubscribe) return;
+    this.unsubscribe = this.discovery.subscribe((message, remote) => this.handleMessage(message, remote));
+    this.discovery.listen();
+    this.watchdog = setInterval(() => this.releaseSilentInputs(), WATCHDOG_MS);
+  }
+
+  // Picks up edited environments. Inputs that were removed or disabled are
+  // released so their values fade back to internal control.
+  reload(): void {
+    this.rebuildBindings();
+    const bound = new Set([...this.bindings.values()].flat().map((binding) => binding.input.id));
+    for (const [inputId, active] of this.active.entries()) {
+      if (bound.has(inputId)) continue;
+      this.active.delete(inputId);
+      this.api.releaseInput(inputId, active.input.releaseFadeMs);
+    }
+    this.start();
+  }
+
+  close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.watchdog) {
+      clearInterval(this.watchdog);
+      this.watchdog = null;
+    }
+  }
+
+  private rebuildBindings(): void {
+    this.bindings.clear();
+    for (const environment of this.config.environments) {
+      for (const input of environment.inputs ?? []) {
+        if (input.type !== "artnet" || !input.enabled) continue;
+        for (const universe of input.universes) {
+          const portAddress = resolvePortAddress(input, universe);
+          if (portAddress === null) {
+            console.error("[artnet-input] invalid port address", { inputId: input.id, universe });
+            continue;
+          }
+          const bindings = this.bindings.get(portAddress) ?? [];
+          bindings.push({ input, environment, universe });
+          this.bindings.set(portAddress, bindings);
+        }
+      }
+    }
+  }
+
+  private handleMessage(message: Buffer, remote: dgram.RemoteInfo): void {
+    const packet = parseArtDmx(message);
+    if (!packet) return;
+    const bindings = this.bindings.get(packet.portAddress);
+    if (!bindings) return;
+
+    const now = Date.now();
+    for (const binding of bindings) {
+      const { input } = binding;
+      if (input.sourceHost && input.sourceHost !== remote.address) continue;
+
+      const active = this.active.get(input.id) ?? { input, valuesByUniverse: new Map(), lastSeenAt: now };
+      if (!this.active.has(input.id) && this.debug) {
+        console.info("[artnet-input-debug] source active", { inputId: input.id, source: remote.address });
+      }
+      active.lastSeenAt = now;
+      active.valuesByUniverse.set(
+        binding.universe,
+        readFeatureValues(binding.environment, this.config.fixtures, binding.universe, packet.dmx),
+      );
+      this.active.set(input.id, active);
+
+      const values: Record<string, number[]> = {};
+      for (const universeValues of active.valuesByUniverse.values()) {
+        Object.assign(values, universeValues);
+      }
+      this.api.setInputValues(input.id, values, {
+        priority: input.priority,
+        mergeMode: input.mergeMode,
+      });
+    }
+  }
+
+  private releaseSilentInputs(): void {
+    const now = Date.now();
+    for (const [inputId, active] of this.active.entries()) {
+      const timeoutMs = Math.max(WATCHDOG_MS, active.input.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+      if (now - active.lastSeenAt < timeoutMs) continue;
+      this.active.delete(inputId);
+      if (this.debug) {
+        console.info("[artnet-input-debug] source silent", { inputId, timeoutMs });
+      }
+      this.api.releaseInput(inputId, active.input.releaseFadeMs);
+    }
+  }
+}
@@ -0,0 +1,160 @@
+export type OscArgument = number | string | boolean | null | Buffer;
+
+// `types` carries the decoded type tags, since JS numbers cannot tell a
+// float 1.0 from an int 1.
+export type OscMessage = {
+  address: string;
+  args: OscArgument[];
+  types?: string;
+};
+
+const BUNDLE_ID = "#bundle";
+
+function padLength(length: number): number {
+  return Math.ceil(length / 4) * 4;
+}
+
+function readString(buffer: Buffer, offset: number): { value: string; next: number } {
+  const end = buffer.indexOf(0, offset);
+  if (end < 0) throw new Error("Unterminated OSC string");
+  return { value: buffer.toString("utf8", offset, end), next: offset + padLength(end - offset + 1) };
+}
+
+function encodeString(value: string): Buffer {
+  const raw = Buffer.from(value, "utf8");
+  const out = Buffer.alloc(padLength(raw.length + 1));
+  raw.copy(out);
+  return out;
+}
+
+function decodeMessage(buffer: Buffer): OscMessage {
+  const address = readString(buffer, 0);
+  if (!address.value.startsWith("/")) throw new Error("Invalid OSC address");
+  if (address.next >= buffer.length) return { address: address.value, args: [], types: "" };
+
+  const tags = readString(buffer, address.next);
+  if (!tags.value.startsWith(",")) throw new Error("Missing OSC type tags");
+  let offset = tags.next;
+  const args: OscArgument[] = [];
+  for (const tag of tags.value.slice(1)) {
+    switch (tag) {
+      case "i":
+        args.push(buffer.readInt32BE(offset));
+        offset += 4;
+        break;
+      case "f":
+        args.push(buffer.readFloatBE(offset));
+        offset += 4;
+        break;
+      case "h":
+        args.push(Number(buffer.readBigInt64BE(offset)));
+        offset += 8;
+        break;
+      case "d":
+        args.push(buffer.readDoubleBE(offset));
+        offset += 8;
+        break;
+      case "s":
+      case "S": {
+        const value = readString(buffer, offset);
+        args.push(value.value);
+        offset = value.next;
+        break;
+      }
+      case "b": {
+        const size = buffer.readInt32BE(offset);
+        args.push(buffer.subarray(offset + 4, offset + 4 + size));
+        offset += 4 + padLength(size);
+        break;
+      }
+      case "T":
+        args.push(true);
+        break;
+      case "F":
+        args.push(false);
+        break;
+      case "N":
+      case "I":
+        args.push(null);
+        break;
+      default:
+        throw new Error(`Unsupported OSC type tag: ${tag}`);
+    }
+  }
+  return { address: address.value, args, types: tags.value.slice(1) };
+}
+
+// Flattens bundles into their messages. Time tags are ignored: everything
+// is applied on arrival.
+export function decodeOscPacket(buffer: Buffer): OscMessage[] {
+  if (buffer.toString("ascii", 0, BUNDLE_ID.length) === BUNDLE_ID && buffer[BUNDLE_ID.length] === 0) {
+    const messages: OscMessage[] = [];
+    let offset = 16;
+    while (offset + 4 <= buffer.length) {
+      const size = buffer.readInt32BE(offset);
+      offset += 4;
+      if (size <= 0 || offset + size > buffer.length) throw new Error("Invalid OSC bundle element");
+      messages.push(...decodeOscPacket(buffer.subarray(offset, offset + size)));
+      offset += size;
+    }
+    return messages;
+  }
+  return [decodeMessage(buffer)];
+}
+
+export function encodeOscMessage(message: OscMessage): Buffer {
+  let tags = ",";
+  const parts: Buffer[] = [];
+  for (const [index, arg] of message.args.entries()) {
+    if (typeof arg === "number") {
+      const tag = message.types?.[index] ?? (Number.isInteger(arg) ? "i" : "f");
+      if (tag === "d") {
+        tags += "d";
+        const out = Buffer.alloc(8);
+        out.writeDoubleBE(arg);
+        parts.push(out);
+      } else if (tag === "i") {
+        tags += "i";
+        const out = Buffer.alloc(4);
+        out.writeInt32BE(Math.trunc(arg));
+        parts.push(out);
+      } else {
+        tags += "f";
+        const out = Buffer.alloc(4);
+        out.writeFloatBE(arg);
+        parts.push(out);
+      }
+    } else if (typeof arg === "string") {
+      tags += "s";
+      parts.push(encodeString(arg));
+    } else if (typeof arg === "boolean") {
+      tags += arg ? "T" : "F";
+    } else if (arg === null) {
+      tags += "N";
+    } else {
+      tags += "b";
+      const size = Buffer.alloc(4);
+      size.writeInt32BE(arg.length);
+      const data = Buffer.alloc(padLength(arg.length));
+      arg.copy(data);
+      parts.push(size, data);
+    }
+  }
+  return Buffer.concat([encodeString(message.address), encodeString(tags), ...parts]);
+}
+
+// Time tag 1 means "immediately".
+export function encodeOscBundle(messages: OscMessage[]): Buffer {
+  const header = Buffer.alloc(16);
+  header.write(BUNDLE_ID, 0, "ascii");
+  header.writeUInt32BE(0, 8);
+  header.writeUInt32BE(1, 12);
+  const parts: Buffer[] = [header];
+  for (const message of messages) {
+    const encoded = encodeOscMessage(message);
+    const size = Buffer.alloc(4);
+    size.writeInt32BE(encoded.length);
+    parts.push(size, encoded);
+  }
+  return Buffer.concat(parts);
+}
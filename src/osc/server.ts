@@ -0,0 +1,226 @@
+import dgram from "node:dgram";
+import { decodeOscPacket, encodeOscBundle } from "./codec.js";
+import { isPlaybackDirection } from "../core/step-order.js";
+import type { OscArgument, OscMessage } from "./codec.js";
+import type { SequencerFrame } from "../core/sequencer.js";
+import type { ClientEvent } from "../ws/protocol.js";
+
+const ADDRESS_PREFIX = "chaser";
+
+type EventHandler = (event: ClientEvent) => void;
+type FeedbackClient = { host: string; port: number };
+
+// What message mapping needs to know about the running show.
+export type OscContext = {
+  // Steps in the program loaded on the playback; 0 when none is loaded.
+  stepCount: (playbackId?: string) => number;
+  // Top of the feature's value space (255, or 65535 for 16-bit features);
+  // null when the feature is unknown.
+  featureMaxValue: (fixtureId: string, featureId: string) => number | null;
+};
+
+function numberArg(args: OscArgument[], index = 0): number | null {
+  const value = args[index];
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) return Number(value);
+  return null;
+}
+
+function booleanArg(args: OscArgument[]): boolean | null {
+  const value = numberArg(args);
+  return value === null ? null : value > 0;
+}
+
+// Buttons on TouchOSC-style surfaces send 1 on press and 0 on release; only
+// the press (or an argument-less message) triggers the action.
+function isPress(args: OscArgument[]): boolean {
+  if (args.length === 0) return true;
+  const value = numberArg(args);
+  return value === null || value > 0;
+}
+
+// Floats are normalized fader positions (0..1) scaled to the feature's value
+// space; integers are raw values.
+function channelArg(value: OscArgument, tag: string | undefined, maxValue: number): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value)) return null;
+  const isFloat = tag === undefined ? !Number.isInteger(value) : tag === "f" || tag === "d";
+  return isFloat ? Math.round(value * maxValue) : value;
+}
+
+export function parseFeedbackClients(raw: string | undefined): FeedbackClient[] {
+  if (!raw) return [];
+  return raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [host, port] = entry.split(":");
+      return { host, port: Number(port) };
+    })
+    .filter((client) => client.host && Number.isInteger(client.port) && client.port > 0);
+}
+
+// Maps an OSC message onto the same events the WebSocket protocol uses.
+// Transport addresses can be scoped to a playback with
+// /chaser/playback/<id>/<command>.
+export function oscToClientEvent(message: OscMessage, context: OscContext): ClientEvent | null {
+  const parts = message.address.split("/").filter(Boolean);
+  if (parts[0] !== ADDRESS_PREFIX) return null;
+
+  if (parts[1] === "fixture" && parts.length === 4) {
+    const [, , fixtureId, featureId] = parts;
+    if (message.args.length === 0) {
+      return { type: "layerAClearFeature", payload: { fixtureId, featureId } };
+    }
+    const maxValue = context.featureMaxValue(fixtureId, featureId) ?? 255;
+    const value = message.args.map((arg, index) => channelArg(arg, message.types?.[index], maxValue));
+    if (value.some((item) => item === null)) return null;
+    const channels = value as number[];
+    return {
+      type: "layerASet",
+      payload: { fixtureId, featureId, value: channels.length === 1 ? channels[0] : channels },
+    };
+  }
+
+  const scoped = parts[1] === "playback" && parts.length === 4;
+  const playbackId = scoped ? parts[2] : undefined;
+  const command = scoped ? parts[3] : parts[1];
+  if (!scoped && parts.length !== 2) return null;
+  const target = playbackId ? { playbackId } : undefined;
+
+  switch (command) {
+    case "play":
+    case "pause":
+    case "next":
+    case "previous":
+      return isPress(message.args) ? { type: command, payload: target } : null;
+    case "seek": {
+      const value = numberArg(message.args);
+      if (value === null) return null;
+      // Seeking past the end would grow the program, so out-of-range seeks are dropped.
+      const stepIndex = Math.round(value);
+      if (stepIndex < 0 || stepIndex >= context.stepCount(playbackId)) return null;
+      return { type: "seek", payload: { stepIndex, ...target } };
+    }
+    case "tempo": {
+      const spm = numberArg(message.args);
+      return spm === null ? null : { type: "tempo", payload: { spm, ...target } };
+    }
+    case "loop": {
+      const enabled = booleanArg(message.args);
+      return enabled === null ? null : { type: "loop", payload: { enabled, ...target } };
+    }
+    case "direction": {
+      const direction = message.args[0];
+      return isPlaybackDirection(direction) ? { type: "direction", payload: { direction, ...target } } : null;
+    }
+    case "blackout": {
+      const enabled = booleanArg(message.args);
+      return enabled === null || scoped ? null : { type: "blackout", payload: { enabled } };
+    }
+    case "program": {
+      const programId = message.args[0];
+      return typeof programId === "string" && programId
+        ? { type: "program", payload: { programId, ...target } }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+export class OscServer {
+  private socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+  private debug = process.env.CHASER_DEBUG === "1";
+  private clients = new Map<string, FeedbackClient>();
+
+  constructor(
+    private readonly port: number,
+    private readonly onEvent: EventHandler,
+    private readonly context: OscContext,
+    staticClients: FeedbackClient[] = [],
+  ) {
+    for (const client of staticClients) {
+      this.clients.set(`${client.host}:${client.port}`, client);
+    }
+    this.socket.on("error", (error) => {
+      console.error("[osc] socket error", error);
+    });
+    this.socket.on("message", (message, remote) => {
+      this.handleMessage(message, remote);
+    });
+  }
+
+  start(): void {
+    this.socket.bind(this.port);
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolvePromise) => {
+      this.socket.close(() => resolvePromise());
+    });
+  }
+
+  // Feedback mirrors the control addresses so bound widgets follow along.
+  sendFeedback(frame: SequencerFrame): void {
+    if (this.clients.size === 0) return;
+    const packet = encodeOscBundle([
+      { address: `/${ADDRESS_PREFIX}/step`, args: [frame.state.stepIndex] },
+      { address: `/${ADDRESS_PREFIX}/program`, args: [frame.state.programId ?? ""] },
+      { address: `/${ADDRESS_PREFIX}/blackout`, args: [frame.state.isBlackout ? 1 : 0] },
+    ]);
+    for (const [key, client] of this.clients) {
+      this.socket.send(packet, client.port, client.host, (error) => {
+        if (error) {
+          console.error("[osc] feedback error", { client: key, error: error.message });
+        }
+      });
+    }
+  }
+
+  private handleMessage(raw: Buffer, remote: dgram.RemoteInfo): void {
+    let messages: OscMessage[];
+    try {
+      messages = decodeOscPacket(raw);
+    } catch (error) {
+      if (this.debug) {
+        console.info("[osc-debug] malformed packet", { from: remote.address, error: String(error) });
+      }
+      return;
+    }
+
+    for (const message of messages) {
+      if (message.address === `/${ADDRESS_PREFIX}/register` || message.address === `/${ADDRESS_PREFIX}/unregister`) {
+        this.updateRegistration(message, remote);
+        continue;
+      }
+      const event = oscToClientEvent(message, this.context);
+      if (this.debug) {
+        console.info("[osc-debug] message", { address: message.address, args: message.args, event });
+      }
+      if (!event) continue;
+      try {
+        this.onEvent(event);
+      } catch (error) {
+        console.error("[osc] event failed", { address: message.address, error });
+      }
+    }
+  }
+
+  // Clients register for feedback on the port given as the first argument,
+  // or on the port they sent from.
+  private updateRegistration(message: OscMessage, remote: dgram.RemoteInfo): void {
+    const port = numberArg(message.args) ?? remote.port;
+    if (!Number.isInteger(port) || port < 1 || port > 65535) return;
+    const key = `${remote.address}:${port}`;
+    if (message.address.endsWith("/unregister")) {
+      this.clients.delete(key);
+    } else {
+      this.clients.set(key, { host: remote.address, port });
+    }
+    if (this.debug) {
+      console.info("[osc-debug] clients", { clients: [...this.clients.keys()] });
+    }
+  }
+}
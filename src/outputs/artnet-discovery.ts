@@ -0,0 +1,208 @@
+import dgram from "node:dgram";
+
+const ARTNET_PORT = 6454;
+const OP_POLL = 0x2000;
+const OP_POLL_REPLY = 0x2100;
+const ARTNET_ID = "Art-Net\0";
+
+export type ArtnetNodePort = {
+  index: number;
+  canInput: boolean;
+  canOutput: boolean;
+  inputUniverse: number | null;
+  outputUniverse: number | null;
+};
+
+export type ArtnetNode = {
+  ip: string;
+  port: number;
+  bindIndex: number;
+  shortName: string;
+  longName: string;
+  mac: string;
+  firmwareVersion: number;
+  net: number;
+  subnet: number;
+  ports: ArtnetNodePort[];
+  universes: number[];
+  lastSeenAt: number;
+};
+
+function buildArtPollPacket(): Buffer {
+  const packet = Buffer.alloc(14);
+  packet.write(ARTNET_ID, 0, "ascii");
+  packet.writeUInt16LE(OP_POLL, 8);
+  packet.writeUInt16BE(14, 10);
+  // Flags: ask nodes to send ArtPollReply whenever their state changes.
+  packet.writeUInt8(0x02, 12);
+  packet.writeUInt8(0x10, 13);
+  return packet;
+}
+
+function readCString(buffer: Buffer, start: number, length: number): string {
+  const raw = buffer.subarray(start, start + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end < 0 ? raw.length : end).toString("ascii").trim();
+}
+
+export function parseArtPollReply(buffer: Buffer, now = Date.now()): ArtnetNode | null {
+  if (buffer.length < 207) return null;
+  if (buffer.toString("ascii", 0, 8) !== ARTNET_ID) return null;
+  if (buffer.readUInt16LE(8) !== OP_POLL_REPLY) return null;
+
+  const ip = [buffer[10], buffer[11], buffer[12], buffer[13]].join(".");
+  const net = buffer[18] & 0x7f;
+  const subnet = buffer[19] & 0x0f;
+  const numPorts = Math.min(4, buffer.readUInt16BE(172));
+
+  const ports: ArtnetNodePort[] = [];
+  for (let index = 0; index < numPorts; index += 1) {
+    const portType = buffer[174 + index];
+    const canOutput = (portType & 0x80) !== 0;
+    const canInput = (portType & 0x40) !== 0;
+    const base = (net << 8) | (subnet << 4);
+    ports.push({
+      index,
+      canInput,
+      canOutput,
+      inputUniverse: canInput ? base | (buffer[186 + index] & 0x0f) : null,
+      outputUniverse: canOutput ? base | (buffer[190 + index] & 0x0f) : null,
+    });
+  }
+
+  const mac = [...buffer.subarray(201, 207)].map((byte) => byte.toString(16).padStart(2, "0")).join(":");
+  return {
+    ip,
+    port: buffer.readUInt16LE(14),
+    bindIndex: buffer.length > 211 ? buffer[211] : 0,
+    shortName: readCString(buffer, 26, 18),
+    longName: readCString(buffer, 44, 64),
+    mac,
+    firmwareVersion: buffer.readUInt16BE(16),
+    net,
+    subnet,
+    ports,
+    universes: ports
+      .map((port) => port.outputUniverse)
+      .filter((universe): universe is number => universe !== null),
+    lastSeenAt: now,
+  };
+}
+
+type MessageListener = (message: Buffer, remote: dgram.RemoteInfo) => void;
+
+// Owns the process's socket on 6454. Unicast datagrams only reach one of
+// several sockets bound to the same port, so the ArtNet input subscribes
+// here instead of binding its own.
+export class ArtnetDiscovery {
+  private socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+  private debug = process.env.CHASER_DEBUG === "1";
+  private pollMs = Math.max(1000, Number(process.env.CHASER_ARTNET_POLL_MS ?? 3000));
+  private broadcastAddress = process.env.CHASER_ARTNET_BROADCAST ?? "255.255.255.255";
+  private nodes = new Map<string, ArtnetNode>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private listeners = new Set<MessageListener>();
+  private bound = false;
+
+  constructor() {
+    this.socket.on("error", (error) => {
+      console.error("[artnet-discovery] socket error", error);
+    });
+    this.socket.on("message", (message, remote) => {
+      this.handleMessage(message);
+      for (const listener of this.listeners) {
+        listener(message, remote);
+      }
+    });
+  }
+
+  start(): void {
+    if (this.pollTimer) return;
+    this.listen(() => this.poll());
+    this.pollTimer = setInterval(() => {
+      this.poll();
+    }, this.pollMs);
+  }
+
+  // Binds the socket without polling, for receivers that run while
+  // discovery itself is turned off.
+  listen(onBound?: () => void): void {
+    if (this.bound) {
+      onBound?.();
+      return;
+    }
+    this.bound = true;
+    this.socket.bind(ARTNET_PORT, () => {
+      this.socket.setBroadcast(true);
+      onBound?.();
+    });
+  }
+
+  subscribe(listener: MessageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    await new Promise<void>((resolvePromise) => {
+      this.socket.close(() => resolvePromise());
+    });
+  }
+
+  list(): ArtnetNode[] {
+    this.expireStaleNodes();
+    return [...this.nodes.values()].sort((left, right) => left.ip.localeCompare(right.ip));
+  }
+
+  // Matches a configured node reference against short name, long name or
+  // MAC (case-insensitive) and returns the node's current IP.
+  resolveHost(reference: string): string | null {
+    const needle = reference.trim().toLowerCase();
+    for (const node of this.list()) {
+      if (
+        node.shortName.toLowerCase() === needle
+        || node.longName.toLowerCase() === needle
+        || node.mac === needle
+      ) {
+        return node.ip;
+      }
+    }
+    return null;
+  }
+
+  private poll(): void {
+    this.expireStaleNodes();
+    this.socket.send(buildArtPollPacket(), ARTNET_PORT, this.broadcastAddress, (error) => {
+      if (error) {
+        console.error("[artnet-discovery] poll error", { error: error.message });
+      }
+    });
+  }
+
+  private handleMessage(message: Buffer): void {
+    const node = parseArtPollReply(message);
+    if (!node) return;
+    const key = `${node.ip}|${node.bindIndex}`;
+    if (this.debug && !this.nodes.has(key)) {
+      console.info("[artnet-discovery] node found", {
+        ip: node.ip,
+        shortName: node.shortName,
+        universes: node.universes,
+      });
+    }
+    this.nodes.set(key, node);
+  }
+
+  private expireStaleNodes(): void {
+    const cutoff = Date.now() - this.pollMs * 3;
+    for (const [key, node] of this.nodes.entries()) {
+      if (node.lastSeenAt < cutoff) this.nodes.delete(key);
+    }
+  }
+}
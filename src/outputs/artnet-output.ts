@@ -1,25 +1,61 @@
 import dgram from "node:dgram";
 import type { RenderPacket } from "../core/render-packet.js";
-import type { OutputDefinition } from "../config/types.js";
+import type { ArtnetPortAddress, OutputDefinition } from "../config/types.js";
 import type { Output } from "./output.js";
+import type { ArtnetDiscovery } from "./artnet-discovery.js";
 
-function buildArtDmxPacket(universe: number, dmx: Uint8Array): Buffer {
+const ARTNET_PORT = 6454;
+const MAX_PORT_ADDRESS = 0x7fff;
+
+type ArtnetTarget = Extract<OutputDefinition, { type: "artnet" }>;
+
+function buildArtDmxPacket(portAddress: number, dmx: Uint8Array, sequence = 0): Buffer {
   const header = Buffer.alloc(18);
   header.write("Art-Net\0", 0, "ascii");
   header.writeUInt16LE(0x5000, 8);
   header.writeUInt16BE(14, 10);
   // Sequence 0 disables sequence handling on receivers (matches probe behavior).
-  header.writeUInt8(0, 12);
+  header.writeUInt8(sequence, 12);
   header.writeUInt8(0, 13);
-  header.writeUInt16LE(universe & 0x7fff, 14);
+  header.writeUInt16LE(portAddress, 14);
   header.writeUInt16BE(dmx.length, 16);
   return Buffer.concat([header, Buffer.from(dmx)]);
 }
 
+function buildArtSyncPacket(): Buffer {
+  const packet = Buffer.alloc(14);
+  packet.write("Art-Net\0", 0, "ascii");
+  packet.writeUInt16LE(0x5200, 8);
+  packet.writeUInt16BE(14, 10);
+  return packet;
+}
+
+function encodePortAddress(address: ArtnetPortAddress): number | null {
+  const { net, subnet, universe } = address;
+  if (![net, subnet, universe].every(Number.isInteger)) return null;
+  if (net < 0 || net > 0x7f || subnet < 0 || subnet > 0x0f || universe < 0 || universe > 0x0f) return null;
+  return (net << 8) | (subnet << 4) | universe;
+}
+
+// Explicit net/subnet/universe triples win; otherwise the environment
+// universe is used as the 15-bit Port-Address directly. Shared with the
+// ArtNet input so both directions address universes the same way.
+export function resolvePortAddress(
+  target: Pick<ArtnetTarget, "portAddresses">,
+  universe: number,
+): number | null {
+  const mapped = target.portAddresses?.find((entry) => Number(entry.universe) === universe);
+  if (mapped) return encodePortAddress(mapped.address);
+  if (!Number.isInteger(universe) || universe < 0 || universe > MAX_PORT_ADDRESS) return null;
+  return universe;
+}
+
 type CachedFrame = {
   host: string;
   port: number;
   universe: number;
+  portAddress: number;
+  sequenced: boolean;
   dmx: Uint8Array;
 };
 
@@ -29,10 +65,11 @@ export class ArtnetOutput implements Output {
   private debug = process.env.CHASER_DEBUG === "1";
   private refreshMs = Math.max(20, Number(process.env.CHASER_ARTNET_REFRESH_MS ?? 40));
   private cachedFrames = new Map<string, CachedFrame>();
+  private sequences = new Map<string, number>();
   private isFlushing = false;
   private flushRequested = false;
 
-  constructor() {
+  constructor(private readonly discovery?: ArtnetDiscovery) {
     this.socket.on("error", (error) => {
       console.error("[artnet] socket error", error);
     });
@@ -44,15 +81,16 @@ export class ArtnetOutput implements Output {
   }
 
   push(packet: RenderPacket): void {
-    const isArtnetOutput = (
-      output: OutputDefinition,
-    ): output is Extract<OutputDefinition, { type: "artnet" }> =>
+    const isArtnetOutput = (output: OutputDefinition): output is ArtnetTarget =>
       output.type === "artnet" && output.enabled;
 
     const targets = packet.environment.outputs.filter(isArtnetOutput);
     if (targets.length === 0) return;
 
     for (const target of targets) {
+      const host = this.resolveTargetHost(target);
+      if (!host) continue;
+      const port = target.port ?? ARTNET_PORT;
       const allowedUniverses = Array.isArray(target.universes)
         ? new Set(target.universes.map((value) => Number(value)))
         : null;
@@ -60,12 +98,21 @@ export class ArtnetOutput implements Output {
       for (const [universeRaw, dmx] of Object.entries(packet.dmxByUniverse)) {
         const universe = Number(universeRaw);
         if (allowedUniverses && !allowedUniverses.has(universe)) continue;
+        const portAddress = resolvePortAddress(target, universe);
+        if (portAddress === null) {
+          if (this.debug) {
+            console.info("[artnet-debug] invalid port address", { outputId: target.id, universe });
+          }
+          continue;
+        }
 
-        const key = `${target.host}|${target.port}|${universe}`;
+        const key = `${host}|${port}|${universe}`;
         this.cachedFrames.set(key, {
-          host: target.host,
-          port: target.port,
+          host,
+          port,
           universe,
+          portAddress,
+          sequenced: Boolean(target.sequenced),
           dmx: Uint8Array.from(dmx),
         });
       }
@@ -74,6 +121,18 @@ export class ArtnetOutput implements Output {
     this.requestFlush("push");
   }
 
+  // Outputs name either a fixed host or a discovered node; a node that has
+  // not answered ArtPoll yet is skipped until it does.
+  private resolveTargetHost(target: ArtnetTarget): string | null {
+    if (target.host) return target.host;
+    if (!target.node) return null;
+    const host = this.discovery?.resolveHost(target.node) ?? null;
+    if (!host && this.debug) {
+      console.info("[artnet-debug] node not discovered", { outputId: target.id, node: target.node });
+    }
+    return host;
+  }
+
   private requestFlush(reason: "push" | "tick"): void {
     this.flushRequested = true;
     if (this.isFlushing) return;
@@ -87,8 +146,18 @@ export class ArtnetOutput implements Output {
       while (this.flushRequested) {
         this.flushRequested = false;
         const frames = [...this.cachedFrames.entries()];
+        const universesByNode = new Map<string, { frame: CachedFrame; count: number }>();
         for (const [key, frame] of frames) {
           await this.sendFrame(key, frame, reason);
+          if (!frame.sequenced) continue;
+          const nodeKey = `${frame.host}|${frame.port}`;
+          const entry = universesByNode.get(nodeKey) ?? { frame, count: 0 };
+          entry.count += 1;
+          universesByNode.set(nodeKey, entry);
+        }
+        // Sequenced nodes latch all universes together once ArtSync arrives.
+        for (const [nodeKey, entry] of universesByNode) {
+          if (entry.count > 1) await this.sendSync(nodeKey, entry.frame);
         }
         reason = "tick";
       }
@@ -97,12 +166,32 @@ export class ArtnetOutput implements Output {
     }
   }
 
+  // Valid sequence numbers run 1..255; 0 is reserved for "no sequencing".
+  private nextSequence(key: string): number {
+    const previous = this.sequences.get(key) ?? 0;
+    const sequence = previous >= 255 ? 1 : previous + 1;
+    this.sequences.set(key, sequence);
+    return sequence;
+  }
+
+  private async sendSync(nodeKey: string, frame: CachedFrame): Promise<void> {
+    await new Promise<void>((resolvePromise) => {
+      this.socket.send(buildArtSyncPacket(), frame.port, frame.host, (error) => {
+        if (error) {
+          console.error("[artnet] sync error", { nodeKey, error: error.message });
+        }
+        resolvePromise();
+      });
+    });
+  }
+
   private async sendFrame(
     key: string,
     frame: CachedFrame,
     reason: "push" | "tick",
   ): Promise<void> {
-    const packet = buildArtDmxPacket(frame.universe, frame.dmx);
+    const sequence = frame.sequenced ? this.nextSequence(key) : 0;
+    const packet = buildArtDmxPacket(frame.portAddress, frame.dmx, sequence);
 
     await new Promise<void>((resolvePromise) => {
       this.socket.send(packet, frame.port, frame.host, (error) => {
@@ -138,6 +227,8 @@ export class ArtnetOutput implements Output {
       host: frame.host,
       port: frame.port,
       universe: frame.universe,
+      portAddress: frame.portAddress,
+      sequence,
       nonZero,
       checksum,
       sample,
@@ -1,10 +1,18 @@
 import mqtt from "mqtt";
+import { cctCalibration, cctFromKelvin, DEFAULT_WARM_KELVIN, kelvinFromCct } from "../core/cct.js";
+import { isColorKind } from "../core/feature-kinds.js";
+import { featureMaxValue } from "../core/feature-values.js";
+import { PLAYBACK_DIRECTIONS, isPlaybackDirection } from "../core/step-order.js";
 import type { IClientOptions, MqttClient } from "mqtt";
 import type {
   EnvironmentDefinition,
+  FixtureCalibration,
   FixtureDefinition,
   OutputDefinition,
+  PlaybackDefinition,
+  PlaybackDirection,
   PlayheadState,
+  PlaylistDefinition,
   ProgramDefinition,
   RuntimeConfig,
 } from "../config/types.js";
@@ -12,36 +20,55 @@ import type { RenderPacket } from "../core/render-packet.js";
 import type { Output } from "./output.js";
 
 const DEFAULT_DISCOVERY_PREFIX = "homeassistant";
-const DEFAULT_MIN_KELVIN = 2700;
-const DEFAULT_MAX_KELVIN = 6500;
 const LIGHT_COMMAND_BATCH_MS = 25;
+// Scoped light effects run on their own LTP playback above the defaults.
+const LIGHT_EFFECT_PRIORITY = 10;
+// Playlist select option that stops the running playlist.
+const NO_PLAYLIST_OPTION = "None";
 
 type MqttTarget = Extract<OutputDefinition, { type: "mqtt" }>;
 
 type LayerAControlOperation =
-  | { kind: "set"; fixtureId: string; featureId: string; value: number | number[] }
-  | { kind: "clearFeature"; fixtureId: string; featureId: string }
-  | { kind: "clearFixture"; fixtureId: string };
+  | { kind: "set"; fixtureId: string; featureId: string; value: number | number[]; fadeMs?: number }
+  | { kind: "clearFeature"; fixtureId: string; featureId: string; fadeMs?: number }
+  | { kind: "clearFixture"; fixtureId: string; fadeMs?: number };
 
 type MqttControlApi = {
   setLayerAValue: (fixtureId: string, featureId: string, value: number | number[]) => void;
   clearLayerAFeature: (fixtureId: string, featureId: string) => void;
   clearLayerAFixture: (fixtureId: string) => void;
   applyLayerABatch: (operations: LayerAControlOperation[]) => void;
-  setSpm: (spm: number) => void;
+  setSpm: (spm: number, playbackId?: string) => void;
   setBlackout: (enabled: boolean) => void;
-  pause: () => void;
-  playFromStart: () => void;
-  triggerProgram: (programId: string) => void;
+  setLoop: (enabled: boolean, playbackId?: string) => void;
+  setDirection: (direction: PlaybackDirection, playbackId?: string) => void;
+  setStep: (stepIndex: number, playbackId?: string) => void;
+  pause: (playbackId?: string) => void;
+  playFromStart: (playbackId?: string) => void;
+  triggerProgram: (programId: string, playbackId?: string) => void;
+  configurePlayback: (playbackId: string, options: Omit<PlaybackDefinition, "id">) => void;
   listPrograms: () => ProgramDefinition[];
+  getProgramId: (playbackId?: string) => string | null;
+  listPlaylists: () => PlaylistDefinition[];
+  startPlaylist: (playlistId: string, playbackId?: string) => void;
+  stopPlaylist: (playbackId?: string) => void;
+  getPlaylistId: (playbackId?: string) => string | null;
 };
 
 type LightFixtureMeta = {
   fixtureId: string;
   name: string;
+  group?: string;
   rgbFeatureId?: string;
+  // Home Assistant color mode of the color feature: rgbw fixtures expose
+  // their white channel, rgba and hsi fixtures are driven as plain rgb.
+  rgbMode?: "rgb" | "rgbw";
   cctFeatureId?: string;
   dimmerFeatureId?: string;
+  // Kelvin range and mix of the CCT feature.
+  calibration?: FixtureCalibration;
+  // Home Assistant works in 0..255; 16-bit features are scaled by 257.
+  valueScaleByFeatureId: Record<string, number>;
 };
 
 type RuntimeTargetState = {
@@ -51,6 +78,7 @@ type RuntimeTargetState = {
   baseTopic: string;
   discoveryPrefix: string;
   nodeId: string;
+  lightEffectScope: NonNullable<MqttTarget["lightEffectScope"]>;
   lightMetaByFixtureId: Map<string, LightFixtureMeta>;
   retainedPayloadCache: Map<string, string>;
   subscriptions: Set<string>;
@@ -60,12 +88,13 @@ type RuntimeTargetState = {
   pendingLightFlushTimer: NodeJS.Timeout | null;
 };
 
-type FixtureLightMode = "rgb" | "color_temp" | "brightness";
+type FixtureLightMode = "rgb" | "rgbw" | "color_temp" | "brightness";
 
 type FixtureLightState = {
   mode: FixtureLightMode;
   brightness: number;
-  baseRgb: [number, number, number];
+  // Three components, or four in rgbw mode.
+  baseRgb: number[];
   baseCct: [number, number];
 };
 
@@ -85,10 +114,6 @@ function sanitizeId(value: string): string {
   return value.toLowerCase().replace(/[^a-z0-9_]+/g, "_").replace(/^_+|_+$/g, "");
 }
 
-function toArray(value: unknown): number[] {
-  return Array.isArray(value) ? value.map((item) => clampByte(Number(item))) : [clampByte(Number(value))];
-}
-
 function parsePayload(raw: Buffer): unknown {
   const text = raw.toString("utf8").trim();
   if (text.length === 0) return "";
@@ -109,8 +134,15 @@ function parseOnOff(value: unknown): boolean | null {
   return null;
 }
 
+// HA sends `transition` in seconds.
+function parseTransitionMs(payload: unknown): number {
+  if (typeof payload !== "object" || payload === null || !("transition" in payload)) return 0;
+  const seconds = Number((payload as { transition: unknown }).transition);
+  return Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : 0;
+}
+
 function miredToKelvin(mired: number): number {
-  if (!Number.isFinite(mired) || mired <= 0) return DEFAULT_MIN_KELVIN;
+  if (!Number.isFinite(mired) || mired <= 0) return DEFAULT_WARM_KELVIN;
   return 1_000_000 / mired;
 }
 
@@ -119,18 +151,20 @@ function kelvinToMired(kelvin: number): number {
   return Math.round(1_000_000 / kelvin);
 }
 
-function cctValuesFromKelvin(kelvin: number, brightness: number): [number, number] {
-  const safeKelvin = Math.max(DEFAULT_MIN_KELVIN, Math.min(DEFAULT_MAX_KELVIN, kelvin));
-  const coolRatio = (safeKelvin - DEFAULT_MIN_KELVIN) / (DEFAULT_MAX_KELVIN - DEFAULT_MIN_KELVIN);
-  const warmRatio = 1 - coolRatio;
-  return [clampByte(brightness * warmRatio), clampByte(brightness * coolRatio)];
+function readLightValues(
+  meta: LightFixtureMeta,
+  layerAValues: Record<string, number[]>,
+  featureId: string,
+  fallback: number[],
+): number[] {
+  const scale = meta.valueScaleByFeatureId[featureId] ?? 1;
+  return (layerAValues[`${meta.fixtureId}:${featureId}`] ?? fallback).map((value) => clampByte(Number(value) / scale));
 }
 
-function kelvinFromCct(ww: number, cw: number): number {
-  const total = ww + cw;
-  if (total <= 0) return DEFAULT_MIN_KELVIN;
-  const coolRatio = cw / total;
-  return Math.round(DEFAULT_MIN_KELVIN + (DEFAULT_MAX_KELVIN - DEFAULT_MIN_KELVIN) * coolRatio);
+function toFeatureValue(meta: LightFixtureMeta, featureId: string, value: number | number[]): number | number[] {
+  const scale = meta.valueScaleByFeatureId[featureId] ?? 1;
+  if (scale === 1) return value;
+  return Array.isArray(value) ? value.map((item) => Math.round(item * scale)) : Math.round(value * scale);
 }
 
 function getBaseTopic(environment: EnvironmentDefinition, target: MqttTarget): string {
@@ -151,7 +185,7 @@ function getNodeId(environment: EnvironmentDefinition, target: MqttTarget): stri
 }
 
 function isLightFixture(definition: FixtureDefinition): boolean {
-  return definition.features.some((feature) => feature.kind === "rgb" || feature.kind === "cct" || feature.kind === "scalar");
+  return definition.features.some((feature) => isColorKind(feature.kind) || feature.kind === "cct" || feature.kind === "scalar");
 }
 
 function toClientOptions(target: MqttTarget): IClientOptions {
@@ -164,7 +198,7 @@ function toClientOptions(target: MqttTarget): IClientOptions {
 
 function supportedColorModes(meta: LightFixtureMeta): string[] {
   const modes: string[] = [];
-  if (meta.rgbFeatureId) modes.push("rgb");
+  if (meta.rgbFeatureId) modes.push(meta.rgbMode ?? "rgb");
   if (meta.cctFeatureId) modes.push("color_temp");
   if (modes.length === 0) modes.push("brightness");
   return modes;
@@ -183,6 +217,16 @@ function normalizeRgb(values: number[]): [number, number, number] {
   ];
 }
 
+// RGB input on an rgbw fixture moves the common part of the color to white,
+// matching what the renderer does with three values.
+function normalizeColor(meta: LightFixtureMeta, values: number[]): number[] {
+  if (meta.rgbMode !== "rgbw") return normalizeRgb(values);
+  if (values.length >= 4) return values.slice(0, 4).map(clampByte);
+  const [r, g, b] = normalizeRgb(values);
+  const white = Math.min(r, g, b);
+  return [r - white, g - white, b - white, white];
+}
+
 function normalizeCct(values: number[]): [number, number] {
   return [
     clampByte(values[0] ?? values[values.length - 1] ?? 0),
@@ -190,6 +234,10 @@ function normalizeCct(values: number[]): [number, number] {
   ];
 }
 
+function runtimeKey(environment: EnvironmentDefinition, target: MqttTarget): string {
+  return `${environment.id}|${target.id}|${target.brokerUrl}`;
+}
+
 export class MqttOutput implements Output {
   readonly id = "mqtt";
   private runtimes = new Map<string, RuntimeTargetState>();
@@ -215,13 +263,66 @@ export class MqttOutput implements Output {
       const runtime = this.getRuntime(packet.environment, target);
       this.syncHomeAssistant(packet.environment, target, runtime, packet.frame.state);
       this.publishControlStates(runtime, packet.frame.state);
-      this.publishLightStates(runtime, packet.frame.layerAValues ?? {});
+      this.publishLightStates(runtime, packet.frame.layerAValues ?? {}, packet.frame.playbacks ?? []);
       this.publishLegacyPayload(runtime, target, packet);
     }
   }
 
+  // Called after fixtures or environments are edited. Discovery entities for
+  // lights that no longer exist are removed; everything else is republished by
+  // the next push from the fresh metadata.
+  reloadConfig(): void {
+    this.fixtureDefsById.clear();
+    for (const fixtureDef of this.runtimeConfig.fixtures) {
+      this.fixtureDefsById.set(fixtureDef.id, fixtureDef);
+    }
+
+    for (const [key, runtime] of this.runtimes.entries()) {
+      const environment = this.runtimeConfig.environments.find((item) => item.id === runtime.environmentId);
+      const target = environment?.outputs.find(
+        (output): output is MqttTarget =>
+          output.type === "mqtt" && output.enabled && runtimeKey(environment, output) === key,
+      );
+      if (!environment || !target) {
+        this.retireRuntime(key, runtime);
+        continue;
+      }
+
+      const lightMeta = this.buildLightMeta(environment);
+      for (const fixtureId of runtime.lightMetaByFixtureId.keys()) {
+        if (lightMeta.has(fixtureId)) continue;
+        const objectId = sanitizeId(`layer_a_${fixtureId}`);
+        const discoveryTopic = `${runtime.discoveryPrefix}/light/${runtime.nodeId}/${objectId}/config`;
+        runtime.retainedPayloadCache.delete(discoveryTopic);
+        runtime.retainedPayloadCache.delete(`${runtime.baseTopic}/light/${fixtureId}/state`);
+        runtime.lightStateByFixtureId.delete(fixtureId);
+        this.publish(runtime, discoveryTopic, "", true);
+      }
+      runtime.lightMetaByFixtureId = lightMeta;
+      runtime.lightEffectScope = target.lightEffectScope ?? "program";
+    }
+
+    if (this.debug) {
+      console.info("[mqtt-debug] config reloaded", { runtimes: [...this.runtimes.keys()] });
+    }
+  }
+
+  private retireRuntime(key: string, runtime: RuntimeTargetState): void {
+    for (const topic of runtime.retainedPayloadCache.keys()) {
+      if (topic.startsWith(`${runtime.discoveryPrefix}/`)) {
+        this.publish(runtime, topic, "", true);
+      }
+    }
+    this.publish(runtime, `${runtime.baseTopic}/availability`, "offline", true);
+    if (runtime.pendingLightFlushTimer) {
+      clearTimeout(runtime.pendingLightFlushTimer);
+    }
+    runtime.client.end();
+    this.runtimes.delete(key);
+  }
+
   private getRuntime(environment: EnvironmentDefinition, target: MqttTarget): RuntimeTargetState {
-    const key = `${environment.id}|${target.id}|${target.brokerUrl}`;
+    const key = runtimeKey(environment, target);
     const existing = this.runtimes.get(key);
     if (existing) return existing;
 
@@ -243,6 +344,7 @@ export class MqttOutput implements Output {
       baseTopic: getBaseTopic(environment, target),
       discoveryPrefix: getDiscoveryPrefix(target),
       nodeId: getNodeId(environment, target),
+      lightEffectScope: target.lightEffectScope ?? "program",
       lightMetaByFixtureId: this.buildLightMeta(environment),
       retainedPayloadCache: new Map(),
       subscriptions: new Set(),
@@ -323,16 +425,24 @@ export class MqttOutput implements Output {
       if (fixture.mqttExpose === false) continue;
       const fixtureDef = this.fixtureDefsById.get(fixture.fixtureTypeId);
       if (!fixtureDef || !isLightFixture(fixtureDef)) continue;
-      const rgbFeature = fixtureDef.features.find((feature) => feature.kind === "rgb");
+      const rgbFeature = fixtureDef.features.find((feature) => isColorKind(feature.kind));
       const cctFeature = fixtureDef.features.find((feature) => feature.kind === "cct");
       const dimmerFeature = fixtureDef.features.find((feature) => feature.kind === "scalar");
       if (!rgbFeature && !cctFeature && !dimmerFeature) continue;
       out.set(fixture.id, {
         fixtureId: fixture.id,
         name: fixture.name,
+        group: fixture.group,
         rgbFeatureId: rgbFeature?.id,
+        rgbMode: rgbFeature ? (rgbFeature.kind === "rgbw" ? "rgbw" : "rgb") : undefined,
         cctFeatureId: cctFeature?.id,
         dimmerFeatureId: dimmerFeature?.id,
+        calibration: fixtureDef.calibration,
+        valueScaleByFeatureId: Object.fromEntries(
+          [rgbFeature, cctFeature, dimmerFeature]
+            .filter((feature) => feature !== undefined)
+            .map((feature) => [feature.id, featureMaxValue(feature) / 255]),
+        ),
       });
     }
     return out;
@@ -351,6 +461,7 @@ export class MqttOutput implements Output {
       model: "Sequencer",
     };
 
+    const programs = this.controls.listPrograms();
     for (const meta of runtime.lightMetaByFixtureId.values()) {
       const objectId = sanitizeId(`layer_a_${meta.fixtureId}`);
       const discoveryTopic = `${runtime.discoveryPrefix}/light/${runtime.nodeId}/${objectId}/config`;
@@ -371,17 +482,23 @@ export class MqttOutput implements Output {
         supported_color_modes: supportedColorModes(meta),
         device,
       };
-      if (meta.rgbFeatureId) payload.rgb = true;
+      if (programs.length > 0) {
+        payload.effect = true;
+        payload.effect_list = programs.map((program) => program.name);
+      }
+      if (meta.rgbFeatureId) payload[meta.rgbMode ?? "rgb"] = true;
       if (meta.cctFeatureId) {
         payload.color_temp = true;
-        payload.min_mireds = kelvinToMired(DEFAULT_MAX_KELVIN);
-        payload.max_mireds = kelvinToMired(DEFAULT_MIN_KELVIN);
+        const { warmKelvin, coolKelvin } = cctCalibration(meta.calibration);
+        payload.min_mireds = kelvinToMired(coolKelvin);
+        payload.max_mireds = kelvinToMired(warmKelvin);
       }
 
       this.publishJsonRetained(runtime, discoveryTopic, payload);
     }
 
     const controlBase = `${runtime.baseTopic}/control`;
+    this.subscribe(runtime, `${runtime.baseTopic}/playback/#`);
 
     this.subscribe(runtime, `${controlBase}/spm/set`);
     this.publishJsonRetained(
@@ -455,7 +572,8 @@ export class MqttOutput implements Output {
       },
     );
 
-    const programs = this.controls.listPrograms();
+    this.syncSequencerEntities(runtime, device, state);
+
     const currentProgramIds = new Set<string>();
     for (const program of programs) {
       currentProgramIds.add(program.id);
@@ -490,33 +608,168 @@ export class MqttOutput implements Output {
     this.publish(runtime, `${controlBase}/spm/state`, String(clampSpm(state.spm)), true);
   }
 
+  // Program select, loop switch, direction select, step number and read-only sensors so HA
+  // automations can follow what the main playback is doing.
+  private syncSequencerEntities(
+    runtime: RuntimeTargetState,
+    device: Record<string, unknown>,
+    state: PlayheadState,
+  ): void {
+    const controlBase = `${runtime.baseTopic}/control`;
+    const availability = {
+      availability_topic: `${runtime.baseTopic}/availability`,
+      payload_available: "online",
+      payload_not_available: "offline",
+    };
+    const programs = this.controls.listPrograms();
+    const activeProgram = programs.find((program) => program.id === state.programId);
+
+    this.subscribe(runtime, `${controlBase}/program/set`);
+    const programSelectTopic = `${runtime.discoveryPrefix}/select/${runtime.nodeId}/program/config`;
+    if (programs.length > 0) {
+      this.publishJsonRetained(runtime, programSelectTopic, {
+        name: "Program",
+        unique_id: `${runtime.nodeId}_program`,
+        command_topic: `${controlBase}/program/set`,
+        state_topic: `${controlBase}/program/state`,
+        options: programs.map((program) => program.name),
+        ...availability,
+        device,
+      });
+    } else if (runtime.retainedPayloadCache.has(programSelectTopic)) {
+      runtime.retainedPayloadCache.delete(programSelectTopic);
+      this.publish(runtime, programSelectTopic, "", true);
+    }
+
+    // Only offered once a playlist exists; "None" stops the running one.
+    const playlists = this.controls.listPlaylists();
+    this.subscribe(runtime, `${controlBase}/playlist/set`);
+    const playlistSelectTopic = `${runtime.discoveryPrefix}/select/${runtime.nodeId}/playlist/config`;
+    if (playlists.length > 0) {
+      this.publishJsonRetained(runtime, playlistSelectTopic, {
+        name: "Playlist",
+        unique_id: `${runtime.nodeId}_playlist`,
+        command_topic: `${controlBase}/playlist/set`,
+        state_topic: `${controlBase}/playlist/state`,
+        options: [NO_PLAYLIST_OPTION, ...playlists.map((playlist) => playlist.name)],
+        ...availability,
+        device,
+      });
+    } else if (runtime.retainedPayloadCache.has(playlistSelectTopic)) {
+      runtime.retainedPayloadCache.delete(playlistSelectTopic);
+      this.publish(runtime, playlistSelectTopic, "", true);
+    }
+
+    this.subscribe(runtime, `${controlBase}/loop/set`);
+    this.publishJsonRetained(runtime, `${runtime.discoveryPrefix}/switch/${runtime.nodeId}/loop/config`, {
+      name: "Loop",
+      unique_id: `${runtime.nodeId}_loop`,
+      command_topic: `${controlBase}/loop/set`,
+      state_topic: `${controlBase}/loop/state`,
+      payload_on: "ON",
+      payload_off: "OFF",
+      state_on: "ON",
+      state_off: "OFF",
+      ...availability,
+      device,
+    });
+
+    this.subscribe(runtime, `${controlBase}/direction/set`);
+    this.publishJsonRetained(runtime, `${runtime.discoveryPrefix}/select/${runtime.nodeId}/direction/config`, {
+      name: "Direction",
+      unique_id: `${runtime.nodeId}_direction`,
+      command_topic: `${controlBase}/direction/set`,
+      state_topic: `${controlBase}/direction/state`,
+      options: [...PLAYBACK_DIRECTIONS],
+      ...availability,
+      device,
+    });
+
+    // Steps are 1-based in HA; the range follows the active program.
+    this.subscribe(runtime, `${controlBase}/step/set`);
+    this.publishJsonRetained(runtime, `${runtime.discoveryPrefix}/number/${runtime.nodeId}/step/config`, {
+      name: "Step",
+      unique_id: `${runtime.nodeId}_step`,
+      command_topic: `${controlBase}/step/set`,
+      state_topic: `${controlBase}/step/state`,
+      min: 1,
+      max: Math.max(1, activeProgram?.steps.length ?? 1),
+      step: 1,
+      mode: "box",
+      ...availability,
+      device,
+    });
+
+    this.publishJsonRetained(runtime, `${runtime.discoveryPrefix}/sensor/${runtime.nodeId}/current_step/config`, {
+      name: "Current Step",
+      unique_id: `${runtime.nodeId}_current_step`,
+      state_topic: `${controlBase}/step/state`,
+      state_class: "measurement",
+      ...availability,
+      device,
+    });
+
+    this.publishJsonRetained(runtime, `${runtime.discoveryPrefix}/sensor/${runtime.nodeId}/playing/config`, {
+      name: "Playback State",
+      unique_id: `${runtime.nodeId}_playing`,
+      state_topic: `${controlBase}/playing/state`,
+      device_class: "enum",
+      options: ["playing", "waiting", "paused"],
+      ...availability,
+      device,
+    });
+
+    this.publishJsonRetained(runtime, `${runtime.discoveryPrefix}/sensor/${runtime.nodeId}/program_name/config`, {
+      name: "Active Program",
+      unique_id: `${runtime.nodeId}_program_name`,
+      state_topic: `${controlBase}/program/state`,
+      ...availability,
+      device,
+    });
+  }
+
   private publishControlStates(runtime: RuntimeTargetState, state: PlayheadState): void {
-    this.publish(runtime, `${runtime.baseTopic}/control/blackout/state`, state.isBlackout ? "ON" : "OFF", true);
-    this.publish(runtime, `${runtime.baseTopic}/control/spm/state`, String(clampSpm(state.spm)), true);
+    const controlBase = `${runtime.baseTopic}/control`;
+    const program = this.controls.listPrograms().find((item) => item.id === state.programId);
+    this.publish(runtime, `${controlBase}/blackout/state`, state.isBlackout ? "ON" : "OFF", true);
+    this.publish(runtime, `${controlBase}/spm/state`, String(clampSpm(state.spm)), true);
+    this.publishRetained(runtime, `${controlBase}/loop/state`, state.loop ? "ON" : "OFF");
+    this.publishRetained(runtime, `${controlBase}/direction/state`, state.direction);
+    this.publishRetained(runtime, `${controlBase}/step/state`, String(state.stepIndex + 1));
+    const playingState = state.waitingForGo ? "waiting" : state.isPlaying ? "playing" : "paused";
+    this.publishRetained(runtime, `${controlBase}/playing/state`, playingState);
+    this.publishRetained(runtime, `${controlBase}/program/state`, program?.name ?? "");
+    const playlistId = this.controls.getPlaylistId(state.playbackId);
+    const playlist = this.controls.listPlaylists().find((item) => item.id === playlistId);
+    this.publishRetained(runtime, `${controlBase}/playlist/state`, playlist?.name ?? NO_PLAYLIST_OPTION);
   }
 
   private publishLightStates(
     runtime: RuntimeTargetState,
     layerAValues: Record<string, number[]>,
+    playbacks: PlayheadState[],
   ): void {
+    const programNames = new Map(this.controls.listPrograms().map((program) => [program.id, program.name]));
     for (const meta of runtime.lightMetaByFixtureId.values()) {
+      const effect = this.activeLightEffect(meta, playbacks, programNames);
       const rgb = meta.rgbFeatureId
-        ? normalizeRgb(toArray(layerAValues[`${meta.fixtureId}:${meta.rgbFeatureId}`] ?? [0, 0, 0]))
+        ? normalizeColor(meta, readLightValues(meta, layerAValues, meta.rgbFeatureId, [0, 0, 0]))
         : null;
       const cct = meta.cctFeatureId
-        ? normalizeCct(toArray(layerAValues[`${meta.fixtureId}:${meta.cctFeatureId}`] ?? [0, 0]))
+        ? normalizeCct(readLightValues(meta, layerAValues, meta.cctFeatureId, [0, 0]))
         : null;
       const dimmer = meta.dimmerFeatureId
-        ? clampByte(toArray(layerAValues[`${meta.fixtureId}:${meta.dimmerFeatureId}`] ?? [0])[0] ?? 0)
+        ? clampByte(readLightValues(meta, layerAValues, meta.dimmerFeatureId, [0])[0] ?? 0)
         : 0;
 
-      const brightnessFromRgb = rgb ? Math.max(rgb[0] ?? 0, rgb[1] ?? 0, rgb[2] ?? 0) : 0;
+      const brightnessFromRgb = rgb ? Math.max(0, ...rgb) : 0;
       const brightnessFromCct = cct ? Math.max(cct[0] ?? 0, cct[1] ?? 0) : 0;
       const hasRgb = Boolean(rgb && brightnessFromRgb > 0 && meta.rgbFeatureId);
       const hasCct = Boolean(cct && brightnessFromCct > 0 && meta.cctFeatureId);
       const previous = runtime.lightStateByFixtureId.get(meta.fixtureId);
+      const rgbMode = meta.rgbMode ?? "rgb";
       const colorMode: FixtureLightMode = hasRgb
-        ? "rgb"
+        ? rgbMode
         : hasCct
           ? "color_temp"
           : meta.dimmerFeatureId
@@ -526,9 +779,9 @@ export class MqttOutput implements Output {
       let brightness = 0;
       if (meta.dimmerFeatureId) {
         brightness = dimmer;
-      } else if (colorMode === "rgb") {
+      } else if (colorMode === rgbMode) {
         brightness = hasRgb
-          ? (previous?.mode === "rgb" && previous.brightness > 0 ? previous.brightness : brightnessFromRgb)
+          ? (previous?.mode === rgbMode && previous.brightness > 0 ? previous.brightness : brightnessFromRgb)
           : 0;
       } else if (colorMode === "color_temp") {
         brightness = hasCct
@@ -544,14 +797,14 @@ export class MqttOutput implements Output {
       const nextState: FixtureLightState = previous ?? {
         mode: colorMode,
         brightness: 255,
-        baseRgb: [255, 255, 255],
+        baseRgb: normalizeColor(meta, [255, 255, 255]),
         baseCct: [255, 255],
       };
       nextState.mode = colorMode;
       nextState.brightness = brightness;
-      if (rgb && colorMode === "rgb") {
+      if (rgb && colorMode === rgbMode) {
         if (brightness > 0) {
-          nextState.baseRgb = normalizeRgb(rgb.map((value) => (value / brightness) * 255));
+          nextState.baseRgb = rgb.map((value) => clampByte((value / brightness) * 255));
         } else {
           nextState.baseRgb = previous?.baseRgb ?? rgb;
         }
@@ -566,16 +819,19 @@ export class MqttOutput implements Output {
       runtime.lightStateByFixtureId.set(meta.fixtureId, nextState);
 
       const payload: Record<string, unknown> = {
-        state: brightness > 0 ? "ON" : "OFF",
+        state: brightness > 0 || effect ? "ON" : "OFF",
         brightness,
         color_mode: colorMode,
       };
-      if (meta.rgbFeatureId && colorMode === "rgb") {
-        const [r, g, b] = nextState.baseRgb;
-        payload.color = { r: clampByte(r), g: clampByte(g), b: clampByte(b) };
+      if (effect) payload.effect = effect;
+      if (meta.rgbFeatureId && colorMode === rgbMode) {
+        const [r, g, b, w] = normalizeColor(meta, nextState.baseRgb);
+        payload.color = rgbMode === "rgbw"
+          ? { r, g, b, w }
+          : { r, g, b };
       }
       if (meta.cctFeatureId && colorMode === "color_temp") {
-        const kelvin = kelvinFromCct(nextState.baseCct[0] ?? 0, nextState.baseCct[1] ?? 0);
+        const kelvin = kelvinFromCct(meta.calibration, nextState.baseCct[0] ?? 0, nextState.baseCct[1] ?? 0);
         payload.color_temp = kelvinToMired(kelvin);
       }
 
@@ -606,20 +862,15 @@ export class MqttOutput implements Output {
     const controlPrefix = `${runtime.baseTopic}/control/`;
     const programPrefix = `${runtime.baseTopic}/program/`;
     const lightPrefix = `${runtime.baseTopic}/light/`;
+    const playbackPrefix = `${runtime.baseTopic}/playback/`;
 
-    if (topic === `${controlPrefix}spm/set`) {
-      const value = Number(typeof payload === "object" && payload && "value" in payload ? (payload as { value: unknown }).value : payload);
-      this.controls.setSpm(clampSpm(value));
-      return;
-    }
-
-    if (topic === `${controlPrefix}play_from_start/press`) {
-      this.controls.playFromStart();
+    if (topic.startsWith(playbackPrefix)) {
+      const [playbackId, ...command] = topic.slice(playbackPrefix.length).split("/");
+      if (playbackId) this.handleTransportCommand(command.join("/"), payload, playbackId);
       return;
     }
 
-    if (topic === `${controlPrefix}pause/press`) {
-      this.controls.pause();
+    if (topic.startsWith(controlPrefix) && this.handleTransportCommand(topic.slice(controlPrefix.length), payload)) {
       return;
     }
 
@@ -647,13 +898,140 @@ export class MqttOutput implements Output {
     }
   }
 
+  // Shared by the global control topics (default playback) and the
+  // per-playback topics under `<baseTopic>/playback/<playbackId>/`.
+  private handleTransportCommand(command: string, payload: unknown, playbackId?: string): boolean {
+    switch (command) {
+      case "spm/set": {
+        const value = Number(typeof payload === "object" && payload && "value" in payload ? (payload as { value: unknown }).value : payload);
+        this.controls.setSpm(clampSpm(value), playbackId);
+        return true;
+      }
+      case "play_from_start/press":
+        this.controls.playFromStart(playbackId);
+        return true;
+      case "pause/press":
+        this.controls.pause(playbackId);
+        return true;
+      case "program/set": {
+        const reference = typeof payload === "object" && payload && "programId" in payload
+          ? String((payload as { programId: unknown }).programId)
+          : String(payload).trim();
+        // The HA select sends program names; other callers send ids.
+        const programs = this.controls.listPrograms();
+        const program = programs.find((item) => item.id === reference)
+          ?? programs.find((item) => item.name === reference);
+        if (program) this.controls.triggerProgram(program.id, playbackId);
+        return true;
+      }
+      case "playlist/set": {
+        const reference = typeof payload === "object" && payload && "playlistId" in payload
+          ? String((payload as { playlistId: unknown }).playlistId)
+          : String(payload).trim();
+        const playlists = this.controls.listPlaylists();
+        const playlist = playlists.find((item) => item.id === reference)
+          ?? playlists.find((item) => item.name === reference);
+        if (playlist) {
+          this.controls.startPlaylist(playlist.id, playbackId);
+        } else if (reference === "" || reference === NO_PLAYLIST_OPTION) {
+          this.controls.stopPlaylist(playbackId);
+        }
+        return true;
+      }
+      case "loop/set": {
+        const flag = parseOnOff(payload);
+        if (flag !== null) this.controls.setLoop(flag, playbackId);
+        return true;
+      }
+      case "direction/set": {
+        const direction = typeof payload === "object" && payload && "direction" in payload
+          ? (payload as { direction: unknown }).direction
+          : String(payload).trim();
+        if (isPlaybackDirection(direction)) this.controls.setDirection(direction, playbackId);
+        return true;
+      }
+      case "step/set": {
+        const value = Number(typeof payload === "object" && payload && "value" in payload ? (payload as { value: unknown }).value : payload);
+        // Seeking past the end would grow the program, so clamp to its last step.
+        const programId = this.controls.getProgramId(playbackId);
+        const stepCount = this.controls.listPrograms().find((item) => item.id === programId)?.steps.length ?? 0;
+        if (Number.isFinite(value) && stepCount > 0) {
+          this.controls.setStep(Math.max(0, Math.min(stepCount - 1, Math.round(value) - 1)), playbackId);
+        }
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
   private handleLightCommand(runtime: RuntimeTargetState, fixtureId: string, payload: unknown): void {
-    const operations = this.buildLightOperations(runtime, fixtureId, payload);
+    const meta = runtime.lightMetaByFixtureId.get(fixtureId);
+    if (!meta) return;
+    if (typeof payload === "object" && payload !== null && typeof (payload as { effect?: unknown }).effect === "string") {
+      this.handleLightEffect(runtime, meta, (payload as { effect: string }).effect);
+      return;
+    }
+    const scopedPlaybackId = this.lightEffectPlaybackId(runtime, meta);
+    if (scopedPlaybackId && parseOnOff((payload as { state?: unknown } | null)?.state ?? payload) === false) {
+      this.controls.pause(scopedPlaybackId);
+    }
+
+    const operations = this.buildLightOperations(runtime, fixtureId, payload).map((operation) =>
+      operation.kind === "set" ? { ...operation, value: toFeatureValue(meta, operation.featureId, operation.value) } : operation,
+    );
     if (operations.length === 0) return;
-    runtime.pendingLightOpsByFixture.set(fixtureId, operations);
+    const fadeMs = parseTransitionMs(payload);
+    runtime.pendingLightOpsByFixture.set(
+      fixtureId,
+      fadeMs > 0 ? operations.map((operation) => ({ ...operation, fadeMs })) : operations,
+    );
     this.scheduleLightBatchFlush(runtime);
   }
 
+  // Program-scoped effects drive the main playback; fixture and group scopes
+  // run the program on a playback masked to those fixtures.
+  private handleLightEffect(runtime: RuntimeTargetState, meta: LightFixtureMeta, effect: string): void {
+    const program = this.controls.listPrograms().find((item) => item.name === effect || item.id === effect);
+    if (!program) return;
+    const playbackId = this.lightEffectPlaybackId(runtime, meta);
+    if (!playbackId) {
+      this.controls.triggerProgram(program.id);
+      return;
+    }
+    const fixtureIds = runtime.lightEffectScope === "group" && meta.group
+      ? [...runtime.lightMetaByFixtureId.values()]
+        .filter((item) => item.group === meta.group)
+        .map((item) => item.fixtureId)
+      : [meta.fixtureId];
+    this.controls.configurePlayback(playbackId, {
+      priority: LIGHT_EFFECT_PRIORITY,
+      mergeMode: "ltp",
+      fixtureIds,
+    });
+    this.controls.triggerProgram(program.id, playbackId);
+  }
+
+  private lightEffectPlaybackId(runtime: RuntimeTargetState, meta: LightFixtureMeta): string | null {
+    if (runtime.lightEffectScope === "program") return null;
+    if (runtime.lightEffectScope === "group" && meta.group) return `group:${meta.group}`;
+    return `light:${meta.fixtureId}`;
+  }
+
+  // The program name of the playing playback that covers this fixture, if any.
+  private activeLightEffect(
+    meta: LightFixtureMeta,
+    playbacks: PlayheadState[],
+    programNames: Map<string, string>,
+  ): string | null {
+    const covering = playbacks
+      .filter((playback) => playback.isPlaying && playback.programId)
+      .filter((playback) => !playback.fixtureIds || playback.fixtureIds.includes(meta.fixtureId))
+      .sort((left, right) => right.priority - left.priority);
+    const programId = covering[0]?.programId;
+    return programId ? programNames.get(programId) ?? null : null;
+  }
+
   private buildLightOperations(
     runtime: RuntimeTargetState,
     fixtureId: string,
@@ -678,9 +1056,9 @@ export class MqttOutput implements Output {
     }
 
     const previous = runtime.lightStateByFixtureId.get(fixtureId) ?? {
-      mode: meta.rgbFeatureId ? "rgb" : meta.cctFeatureId ? "color_temp" : "brightness",
+      mode: meta.rgbFeatureId ? meta.rgbMode ?? "rgb" : meta.cctFeatureId ? "color_temp" : "brightness",
       brightness: 255,
-      baseRgb: [255, 255, 255] as [number, number, number],
+      baseRgb: normalizeColor(meta, [255, 255, 255]),
       baseCct: [255, 255] as [number, number],
     };
     const hasBrightnessInput = Number.isFinite(Number(objectPayload.brightness));
@@ -698,26 +1076,29 @@ export class MqttOutput implements Output {
       && "g" in color
       && "b" in color
     ) {
-      previous.baseRgb = normalizeRgb([
-        Number((color as Record<string, unknown>).r),
-        Number((color as Record<string, unknown>).g),
-        Number((color as Record<string, unknown>).b),
+      const components = color as Record<string, unknown>;
+      const white = Number(components.w);
+      previous.baseRgb = normalizeColor(meta, [
+        Number(components.r),
+        Number(components.g),
+        Number(components.b),
+        ...(meta.rgbMode === "rgbw" && Number.isFinite(white) ? [white] : []),
       ]);
-      mode = "rgb";
+      mode = meta.rgbMode ?? "rgb";
     }
 
     const rawColorTemp = Number(objectPayload.color_temp ?? NaN);
     if (meta.cctFeatureId && Number.isFinite(rawColorTemp) && rawColorTemp > 0) {
       const kelvin = miredToKelvin(rawColorTemp);
-      previous.baseCct = cctValuesFromKelvin(kelvin, 255);
+      previous.baseCct = normalizeCct(cctFromKelvin(meta.calibration, kelvin, 255));
       mode = "color_temp";
     }
 
     previous.mode = mode;
     previous.brightness = brightness;
 
-    if (mode === "rgb" && meta.rgbFeatureId) {
-      const rgb = normalizeRgb(scaleValues(previous.baseRgb, brightness));
+    if ((mode === "rgb" || mode === "rgbw") && meta.rgbFeatureId) {
+      const rgb = normalizeColor(meta, scaleValues(previous.baseRgb, brightness));
       const operations: LayerAControlOperation[] = [
         { kind: "set", fixtureId, featureId: meta.rgbFeatureId, value: rgb },
       ];
@@ -758,7 +1139,7 @@ export class MqttOutput implements Output {
     }
 
     if (meta.rgbFeatureId) {
-      const rgb = normalizeRgb(scaleValues(previous.baseRgb, brightness));
+      const rgb = normalizeColor(meta, scaleValues(previous.baseRgb, brightness));
       runtime.lightStateByFixtureId.set(fixtureId, previous);
       return [{ kind: "set", fixtureId, featureId: meta.rgbFeatureId, value: rgb }];
     }
@@ -806,6 +1187,13 @@ export class MqttOutput implements Output {
     this.publish(runtime, topic, serialized, true);
   }
 
+  private publishRetained(runtime: RuntimeTargetState, topic: string, payload: string): void {
+    const previous = runtime.retainedPayloadCache.get(topic);
+    if (previous === payload) return;
+    runtime.retainedPayloadCache.set(topic, payload);
+    this.publish(runtime, topic, payload, true);
+  }
+
   private publish(
     runtime: RuntimeTargetState,
     topic: string,
@@ -0,0 +1,274 @@
+import dgram from "node:dgram";
+import { createHash } from "node:crypto";
+import type { RenderPacket } from "../core/render-packet.js";
+import type { EnvironmentDefinition, OutputDefinition } from "../config/types.js";
+import type { Output } from "./output.js";
+
+const SACN_PORT = 5568;
+const DEFAULT_PRIORITY = 100;
+const DEFAULT_SOURCE_NAME = "chaser-v2";
+const OPTION_STREAM_TERMINATED = 0x40;
+// E1.31 asks for three terminated packets so receivers notice the stop.
+const TERMINATION_REPEAT = 3;
+
+type SacnTarget = Extract<OutputDefinition, { type: "sacn" }>;
+
+type CachedFrame = {
+  outputId: string;
+  host: string;
+  port: number;
+  universe: number;
+  priority: number;
+  sourceName: string;
+  cid: Buffer;
+  dmx: Uint8Array;
+};
+
+function multicastAddress(universe: number): string {
+  return `239.255.${(universe >> 8) & 0xff}.${universe & 0xff}`;
+}
+
+// A configured CID must be a UUID; otherwise derive a stable one from the
+// output id so receivers see the same source across restarts.
+function resolveCid(target: SacnTarget): Buffer {
+  const hex = target.cid?.replace(/-/g, "") ?? "";
+  if (/^[0-9a-fA-F]{32}$/.test(hex)) return Buffer.from(hex, "hex");
+  return createHash("md5").update(`chaser-v2:${target.id}`).digest();
+}
+
+// Whether the target still streams the cached universe to the same address.
+function targetStreams(target: SacnTarget, frame: CachedFrame): boolean {
+  if (!target.enabled) return false;
+  const universe = frame.universe - (target.universeOffset ?? 1);
+  if (Array.isArray(target.universes) && !target.universes.map((value) => Number(value)).includes(universe)) {
+    return false;
+  }
+  return (target.host ?? multicastAddress(frame.universe)) === frame.host && (target.port ?? SACN_PORT) === frame.port;
+}
+
+function buildE131Packet(frame: CachedFrame, sequence: number, options: number): Buffer {
+  const slots = frame.dmx.length;
+  const packet = Buffer.alloc(126 + slots);
+
+  // Root layer
+  packet.writeUInt16BE(0x0010, 0);
+  packet.writeUInt16BE(0x0000, 2);
+  packet.write("ASC-E1.17\0\0\0", 4, "ascii");
+  packet.writeUInt16BE(0x7000 | (packet.length - 16), 16);
+  packet.writeUInt32BE(0x00000004, 18);
+  frame.cid.copy(packet, 22, 0, 16);
+
+  // Framing layer
+  packet.writeUInt16BE(0x7000 | (packet.length - 38), 38);
+  packet.writeUInt32BE(0x00000002, 40);
+  packet.write(frame.sourceName.slice(0, 63), 44, 64, "utf8");
+  packet.writeUInt8(frame.priority, 108);
+  packet.writeUInt16BE(0, 109);
+  packet.writeUInt8(sequence, 111);
+  packet.writeUInt8(options, 112);
+  packet.writeUInt16BE(frame.universe, 113);
+
+  // DMP layer
+  packet.writeUInt16BE(0x7000 | (packet.length - 115), 115);
+  packet.writeUInt8(0x02, 117);
+  packet.writeUInt8(0xa1, 118);
+  packet.writeUInt16BE(0x0000, 119);
+  packet.writeUInt16BE(0x0001, 121);
+  packet.writeUInt16BE(slots + 1, 123);
+  packet.writeUInt8(0x00, 125);
+  Buffer.from(frame.dmx).copy(packet, 126);
+  return packet;
+}
+
+export class SacnOutput implements Output {
+  readonly id = "sacn";
+  private socket = dgram.createSocket("udp4");
+  private debug = process.env.CHASER_DEBUG === "1";
+  private refreshMs = Math.max(
+    20,
+    Number(process.env.CHASER_SACN_REFRESH_MS ?? process.env.CHASER_ARTNET_REFRESH_MS ?? 40),
+  );
+  private refreshTimer: NodeJS.Timeout;
+  private cachedFrames = new Map<string, CachedFrame>();
+  private sequences = new Map<string, number>();
+  // Streams sending their terminated packets; data packets for them are held
+  // back so receivers do not see the stream restart.
+  private terminating = new Set<string>();
+  private isFlushing = false;
+  private flushRequested = false;
+  private closed = false;
+
+  constructor() {
+    this.socket.on("error", (error) => {
+      console.error("[sacn] socket error", error);
+    });
+
+    // Continuously send the latest frame for each target universe.
+    this.refreshTimer = setInterval(() => {
+      this.requestFlush("tick");
+    }, this.refreshMs);
+  }
+
+  push(packet: RenderPacket): void {
+    const targets = packet.environment.outputs.filter(
+      (output): output is SacnTarget => output.type === "sacn" && output.enabled,
+    );
+    this.terminateDisabledOutputs(packet.environment.outputs);
+    if (targets.length === 0) return;
+
+    for (const target of targets) {
+      const allowedUniverses = Array.isArray(target.universes)
+        ? new Set(target.universes.map((value) => Number(value)))
+        : null;
+      const universeOffset = target.universeOffset ?? 1;
+      const priority = Math.max(0, Math.min(200, Math.round(target.priority ?? DEFAULT_PRIORITY)));
+      const cid = resolveCid(target);
+
+      for (const [universeRaw, dmx] of Object.entries(packet.dmxByUniverse)) {
+        const universe = Number(universeRaw);
+        if (allowedUniverses && !allowedUniverses.has(universe)) continue;
+        const sacnUniverse = universe + universeOffset;
+        if (sacnUniverse < 1 || sacnUniverse > 63999) continue;
+
+        const host = target.host ?? multicastAddress(sacnUniverse);
+        const port = target.port ?? SACN_PORT;
+        const key = `${target.id}|${host}|${port}|${sacnUniverse}`;
+        this.cachedFrames.set(key, {
+          outputId: target.id,
+          host,
+          port,
+          universe: sacnUniverse,
+          priority,
+          sourceName: target.sourceName ?? DEFAULT_SOURCE_NAME,
+          cid,
+          dmx: Uint8Array.from(dmx),
+        });
+      }
+    }
+
+    this.requestFlush("push");
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.refreshTimer);
+    const frames = [...this.cachedFrames.entries()];
+    this.cachedFrames.clear();
+    for (const [key, frame] of frames) {
+      await this.terminate(key, frame);
+    }
+    this.closed = true;
+    this.socket.close();
+  }
+
+  // Terminates the streams of universes that deleted or edited outputs no
+  // longer send; they would otherwise be refreshed until the process exits.
+  reloadConfig(environments: EnvironmentDefinition[]): void {
+    const targets = new Map<string, SacnTarget>();
+    for (const environment of environments) {
+      for (const output of environment.outputs) {
+        if (output.type === "sacn") targets.set(output.id, output);
+      }
+    }
+    for (const [key, frame] of this.cachedFrames.entries()) {
+      const target = targets.get(frame.outputId);
+      if (target && targetStreams(target, frame)) continue;
+      this.cachedFrames.delete(key);
+      void this.terminate(key, frame);
+    }
+  }
+
+  private terminateDisabledOutputs(outputs: OutputDefinition[]): void {
+    const disabledIds = new Set(
+      outputs.filter((output) => output.type === "sacn" && !output.enabled).map((output) => output.id),
+    );
+    if (disabledIds.size === 0) return;
+    for (const [key, frame] of this.cachedFrames.entries()) {
+      if (!disabledIds.has(frame.outputId)) continue;
+      this.cachedFrames.delete(key);
+      void this.terminate(key, frame);
+    }
+  }
+
+  private async terminate(key: string, frame: CachedFrame): Promise<void> {
+    this.terminating.add(key);
+    for (let i = 0; i < TERMINATION_REPEAT; i += 1) {
+      await this.send(key, frame, buildE131Packet(frame, this.nextSequence(key), OPTION_STREAM_TERMINATED));
+    }
+    this.sequences.delete(key);
+    this.terminating.delete(key);
+    if (this.debug) {
+      console.info("[sacn-debug] terminated", { key, universe: frame.universe });
+    }
+  }
+
+  private nextSequence(key: string): number {
+    const sequence = ((this.sequences.get(key) ?? -1) + 1) & 0xff;
+    this.sequences.set(key, sequence);
+    return sequence;
+  }
+
+  private requestFlush(reason: "push" | "tick"): void {
+    this.flushRequested = true;
+    if (this.isFlushing) return;
+    void this.flushLoop(reason);
+  }
+
+  private async flushLoop(initialReason: "push" | "tick"): Promise<void> {
+    this.isFlushing = true;
+    let reason: "push" | "tick" = initialReason;
+    try {
+      while (this.flushRequested) {
+        this.flushRequested = false;
+        const frames = [...this.cachedFrames.entries()];
+        for (const [key, frame] of frames) {
+          await this.sendFrame(key, frame, reason);
+        }
+        reason = "tick";
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  private async sendFrame(key: string, frame: CachedFrame, reason: "push" | "tick"): Promise<void> {
+    // A flush works on a copy of the cache; skip frames removed or replaced
+    // since then.
+    if (this.terminating.has(key) || this.cachedFrames.get(key) !== frame) return;
+    const sequence = this.nextSequence(key);
+    await this.send(key, frame, buildE131Packet(frame, sequence, 0));
+
+    if (!this.debug) return;
+
+    let nonZero = 0;
+    for (let i = 0; i < frame.dmx.length; i += 1) {
+      if (frame.dmx[i] > 0) nonZero += 1;
+    }
+    console.info("[sacn-debug] send", {
+      reason,
+      key,
+      host: frame.host,
+      port: frame.port,
+      universe: frame.universe,
+      sequence,
+      nonZero,
+    });
+  }
+
+  private async send(key: string, frame: CachedFrame, packet: Buffer): Promise<void> {
+    if (this.closed) return;
+    await new Promise<void>((resolvePromise) => {
+      this.socket.send(packet, frame.port, frame.host, (error) => {
+        if (error) {
+          console.error("[sacn] send error", {
+            key,
+            host: frame.host,
+            port: frame.port,
+            universe: frame.universe,
+            error: error.message,
+          });
+        }
+        resolvePromise();
+      });
+    });
+  }
+}
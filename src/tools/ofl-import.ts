@@ -0,0 +1,66 @@
+import { readFile } from "node:fs/promises";
+import { basename, dirname, resolve } from "node:path";
+import { loadRuntimeConfig } from "../config/load-config.js";
+import { importOflFixture } from "../config/ofl-import.js";
+import { ConfigStore } from "../core/config-store.js";
+
+// Converts an Open Fixture Library fixture file and prints the result.
+// With --write the fixture is appended to data/fixtures.json.
+function parseArgs(argv: string[]): { file?: string; options: Record<string, string> } {
+  const options: Record<string, string> = {};
+  let file: string | undefined;
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      file ??= arg;
+      continue;
+    }
+    const [key, inlineValue] = arg.slice(2).split("=", 2);
+    if (inlineValue !== undefined) {
+      options[key] = inlineValue;
+      continue;
+    }
+    const next = argv[i + 1];
+    if (next && !next.startsWith("--")) {
+      options[key] = next;
+      i += 1;
+    } else {
+      options[key] = "true";
+    }
+  }
+  return { file, options };
+}
+
+async function main(): Promise<void> {
+  const { file, options } = parseArgs(process.argv.slice(2));
+  if (!file) {
+    throw new Error("Usage: fixture:import <ofl-fixture.json> [--mode <name>] [--id <id>] [--brand <name>] [--write]");
+  }
+
+  const fullPath = resolve(process.cwd(), file);
+  const raw = JSON.parse(await readFile(fullPath, "utf8")) as unknown;
+  // OFL keeps fixtures under fixtures/<manufacturer>/, so the directory name
+  // is a reasonable brand when none is given.
+  const brand = options.brand ?? (basename(dirname(dirname(fullPath))) === "fixtures"
+    ? basename(dirname(fullPath))
+    : undefined);
+  const result = importOflFixture(raw, { mode: options.mode, id: options.id, brand });
+
+  console.error(`Mode: ${result.mode} (available: ${result.availableModes.join(", ")})`);
+  for (const item of result.unmapped) {
+    console.error(`  unmapped channel ${item.channel}${item.name ? ` (${item.name})` : ""}: ${item.reason}`);
+  }
+
+  if (options.write === "true") {
+    const config = await loadRuntimeConfig();
+    await new ConfigStore(config).createFixture(result.fixture);
+    console.error(`Added ${result.fixture.id} to data/fixtures.json`);
+    return;
+  }
+  console.log(JSON.stringify(result.fixture, null, 2));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,61 @@
+import { loadRuntimeConfig } from "../config/load-config.js";
+import { analyzePatch, formatPatchIssue } from "../core/patch-analysis.js";
+
+// Prints the DMX patch of every environment (or the one given with
+// --environment <id>). Exits with code 1 when any issue is found.
+function parseEnvironmentArg(argv: string[]): string | undefined {
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg.startsWith("--environment=")) return arg.slice("--environment=".length);
+    if (arg === "--environment") return argv[i + 1];
+  }
+  return undefined;
+}
+
+function formatRange(range: { start: number; end: number }): string {
+  return range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`;
+}
+
+async function main(): Promise<void> {
+  const environmentId = parseEnvironmentArg(process.argv.slice(2));
+  const config = await loadRuntimeConfig();
+  const environments = environmentId
+    ? config.environments.filter((environment) => environment.id === environmentId)
+    : config.environments;
+  if (environments.length === 0) {
+    throw new Error(`Environment not found: ${environmentId}`);
+  }
+
+  let issueCount = 0;
+  for (const environment of environments) {
+    const report = analyzePatch(environment, config.fixtures);
+    console.log(`Environment ${environment.id} (${environment.name})`);
+
+    for (const universe of report.universes) {
+      console.log(`\n  Universe ${universe.universe}: ${universe.usedChannels}/512 channels used`);
+      for (const footprint of universe.footprints) {
+        const range = formatRange(footprint).padEnd(9);
+        console.log(`    ${range} ${footprint.fixtureId} (${footprint.name})`);
+      }
+      const gaps = universe.gaps.map(formatRange);
+      console.log(`    free: ${gaps.length > 0 ? gaps.join(", ") : "none"}`);
+    }
+
+    if (report.issues.length > 0) {
+      console.log("\n  Issues:");
+      for (const issue of report.issues) {
+        console.log(`    - ${formatPatchIssue(issue)}`);
+      }
+    }
+    issueCount += report.issues.length;
+    console.log("");
+  }
+
+  console.log(issueCount === 0 ? "No patch issues." : `${issueCount} patch issue(s) found.`);
+  if (issueCount > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,4 +1,15 @@
-import type { EnvironmentDefinition, FixtureDefinition, ProgramDefinition } from "../config/types.js";
+import type {
+  EffectDefinition,
+  EnvironmentDefinition,
+  FeatureValue,
+  FixtureDefinition,
+  KelvinValue,
+  PlaybackDirection,
+  PlaybackMergeMode,
+  PlaylistDefinition,
+  ProgramDefinition,
+} from "../config/types.js";
+import type { PlaylistState } from "../core/playlist-player.js";
 import type { SequencerFrame } from "../core/sequencer.js";
 
 export type ConfigPayload = {
@@ -8,19 +19,43 @@ export type ConfigPayload = {
 
 export type ServerEvent =
   | { type: "programs"; payload: ProgramDefinition[] }
+  | { type: "playlists"; payload: PlaylistDefinition[] }
+  | { type: "playlistState"; payload: PlaylistState[] }
   | { type: "config"; payload: ConfigPayload }
   | { type: "frame"; payload: SequencerFrame };
 
+// Transport events address the default playback unless a playbackId is given.
+type PlaybackTarget = { playbackId?: string };
+
 export type ClientEvent =
-  | { type: "play" }
-  | { type: "pause" }
-  | { type: "next" }
-  | { type: "previous" }
-  | { type: "seek"; payload: { stepIndex: number } }
+  | { type: "play"; payload?: PlaybackTarget }
+  | { type: "pause"; payload?: PlaybackTarget }
+  | { type: "next"; payload?: PlaybackTarget }
+  | { type: "previous"; payload?: PlaybackTarget }
+  | { type: "seek"; payload: { stepIndex: number } & PlaybackTarget }
   | { type: "blackout"; payload: { enabled: boolean } }
-  | { type: "tempo"; payload: { spm: number } }
-  | { type: "loop"; payload: { enabled: boolean } }
-  | { type: "program"; payload: { programId: string } }
-  | { type: "layerASet"; payload: { fixtureId: string; featureId: string; value: number | number[] } }
-  | { type: "layerAClearFeature"; payload: { fixtureId: string; featureId: string } }
-  | { type: "layerAClearFixture"; payload: { fixtureId: string } };
+  | { type: "tempo"; payload: { spm: number } & PlaybackTarget }
+  | { type: "loop"; payload: { enabled: boolean } & PlaybackTarget }
+  | { type: "direction"; payload: { direction: PlaybackDirection } & PlaybackTarget }
+  | { type: "program"; payload: { programId: string; crossfadeMs?: number } & PlaybackTarget }
+  | { type: "playlistStart"; payload: { playlistId: string } & PlaybackTarget }
+  | { type: "playlistStop"; payload?: PlaybackTarget }
+  | { type: "playlistNext"; payload?: PlaybackTarget }
+  | {
+      type: "playbackConfigure";
+      payload: {
+        playbackId: string;
+        priority?: number;
+        mergeMode?: PlaybackMergeMode;
+        fixtureIds?: string[] | null;
+      };
+    }
+  | { type: "playbackRemove"; payload: { playbackId: string } }
+  | { type: "effectStart"; payload: EffectDefinition }
+  | { type: "effectStop"; payload: { effectId: string } }
+  | {
+      type: "layerASet";
+      payload: { fixtureId: string; featureId: string; value: FeatureValue | KelvinValue; fadeMs?: number };
+    }
+  | { type: "layerAClearFeature"; payload: { fixtureId: string; featureId: string; fadeMs?: number } }
+  | { type: "layerAClearFixture"; payload: { fixtureId: string; fadeMs?: number } };